@@ -1,6 +1,14 @@
 import { describe, it, expect, jest, beforeAll, beforeEach } from '@jest/globals';
-import { Document } from 'mongoose';
-import { QueryToolkit } from '../index.js';
+import { Document, Schema, Types } from 'mongoose';
+import {
+  QueryToolkit,
+  QueryValidationError,
+  LeanDocument,
+  MemoryCacheStore,
+  RedisCacheStore,
+  cacheInvalidationPlugin,
+  serializeCsv,
+} from '../index.js';
 
 // Mock mongoose methods
 const mockExec = jest.fn();
@@ -28,6 +36,7 @@ const mockSort = jest.fn().mockImplementation(function() {
 const mockSelect = jest.fn().mockReturnValue({ sort: mockSort, skip: mockSkip, populate: mockPopulate, limit: mockLimit, exec: mockExec });
 const mockFind = jest.fn().mockReturnValue({ sort: mockSort, select: mockSelect, skip: mockSkip, populate: mockPopulate, limit: mockLimit, exec: mockExec });
 const mockCountDocuments = jest.fn().mockResolvedValue(0);
+const mockEstimatedDocumentCount = jest.fn().mockResolvedValue(0);
 
 interface TestUser extends Document {
   name: string;
@@ -46,6 +55,7 @@ describe('QueryToolkit', () => {
     UserModel = {
       find: mockFind,
       countDocuments: mockCountDocuments,
+      estimatedDocumentCount: mockEstimatedDocumentCount,
     };
 
     queryToolkit = new QueryToolkit(UserModel as any, {
@@ -150,13 +160,13 @@ describe('QueryToolkit', () => {
     await queryToolkit.findWithOptions({ sort: 'name' });
     
     // Verify sort parameters
-    expect(mockSort).toHaveBeenCalledWith({ name: 1 });
+    expect(mockSort).toHaveBeenCalledWith({ name: 1, _id: 1 });
     
     // Execute query with descending sort
     await queryToolkit.findWithOptions({ sort: '-name' });
     
     // Verify sort parameters
-    expect(mockSort).toHaveBeenCalledWith({ name: -1 });
+    expect(mockSort).toHaveBeenCalledWith({ name: -1, _id: -1 });
   });
 
   it('should select specific fields', async () => {
@@ -233,6 +243,1779 @@ describe('QueryToolkit', () => {
     expect(mockPopulate).toHaveBeenCalledWith('comments');
   });
 
+  describe('Filter operators', () => {
+    let operatorToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      const schema = new Schema({
+        status: String,
+        price: Number,
+        active: Boolean,
+        owner: Schema.Types.ObjectId,
+        createdAt: Date,
+        deletedAt: Date,
+        tags: [String],
+      });
+
+      operatorToolkit = new QueryToolkit({ ...UserModel, schema } as any, {
+        filterableFields: ['status', 'price', 'active', 'owner', 'createdAt', 'deletedAt', 'tags'],
+      });
+    });
+
+    it('should build range clauses from bracket keys', async () => {
+      await operatorToolkit.findWithOptions({ 'price[gte]': '10', 'price[lt]': '50' });
+
+      expect(mockFind).toHaveBeenCalledWith({ price: { $gte: 10, $lt: 50 } });
+    });
+
+    it('should build clauses from nested operator objects', async () => {
+      await operatorToolkit.findWithOptions({ price: { gt: '5', ne: '7' } });
+
+      expect(mockFind).toHaveBeenCalledWith({ price: { $gt: 5, $ne: 7 } });
+    });
+
+    it('should split comma-separated values for in and nin', async () => {
+      await operatorToolkit.findWithOptions({ 'status[in]': 'active,pending', 'tags[nin]': ['spam'] });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        status: { $in: ['active', 'pending'] },
+        tags: { $nin: ['spam'] },
+      });
+    });
+
+    it('should coerce exists to a boolean', async () => {
+      await operatorToolkit.findWithOptions({ 'deletedAt[exists]': 'false' });
+
+      expect(mockFind).toHaveBeenCalledWith({ deletedAt: { $exists: false } });
+    });
+
+    it('should coerce values to the schema type', async () => {
+      const ownerId = new Types.ObjectId().toHexString();
+
+      await operatorToolkit.findWithOptions({
+        active: 'true',
+        owner: ownerId,
+        'createdAt[gte]': '2024-01-01',
+      });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        active: true,
+        owner: new Types.ObjectId(ownerId),
+        createdAt: { $gte: new Date('2024-01-01') },
+      });
+    });
+
+    it('should combine equality with other operators using $eq', async () => {
+      await operatorToolkit.findWithOptions({ price: '10', 'price[exists]': 'true' });
+
+      expect(mockFind).toHaveBeenCalledWith({ price: { $eq: 10, $exists: true } });
+    });
+
+    it('should drop unknown operators and values that cannot be coerced', async () => {
+      await operatorToolkit.findWithOptions({
+        'price[regex]': '.*',
+        'createdAt[gte]': 'not-a-date',
+        status: { $where: 'sleep(1000)' },
+        owner: 'not-an-id',
+      });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+
+    it('should ignore operators on fields that are not filterable', async () => {
+      await operatorToolkit.findWithOptions({ 'salary[gte]': '1000' });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('Filterable field policies', () => {
+    let policyToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      policyToolkit = new QueryToolkit(UserModel as any, {
+        filterableFields: [
+          'status',
+          { field: 'createdAt', type: 'date', operators: ['gte', 'lte'] },
+          { field: 'role', enum: ['admin', 'user'] },
+          { field: 'age', type: 'number', operators: ['eq', 'gt'] },
+        ],
+      });
+    });
+
+    it('should still accept plain string fields', async () => {
+      await policyToolkit.findWithOptions({ status: 'active' });
+
+      expect(mockFind).toHaveBeenCalledWith({ status: 'active' });
+    });
+
+    it('should coerce values using the configured type', async () => {
+      await policyToolkit.findWithOptions({ 'createdAt[gte]': '2024-01-01', age: '30' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        createdAt: { $gte: new Date('2024-01-01') },
+        age: 30,
+      });
+    });
+
+    it('should drop operators that are not allowed for the field', async () => {
+      await policyToolkit.findWithOptions({
+        createdAt: '2024-01-01',
+        'createdAt[ne]': '2024-01-01',
+        'age[gt]': '18',
+        'age[lt]': '65',
+      });
+
+      expect(mockFind).toHaveBeenCalledWith({ age: { $gt: 18 } });
+    });
+
+    it('should drop values outside the configured enum', async () => {
+      await policyToolkit.findWithOptions({ role: 'superadmin' });
+      expect(mockFind).toHaveBeenLastCalledWith({});
+
+      await policyToolkit.findWithOptions({ 'role[in]': 'admin,superadmin' });
+      expect(mockFind).toHaveBeenLastCalledWith({ role: { $in: ['admin'] } });
+    });
+
+    it('should apply the same policy to countWithOptions', async () => {
+      await policyToolkit.countWithOptions({ role: 'admin', 'createdAt[exists]': 'true' });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({ role: 'admin' });
+    });
+  });
+
+  describe('Input sanitization', () => {
+    it('should escape regex metacharacters in the search term', async () => {
+      await queryToolkit.findWithOptions({ q: '(a+)+$' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $or: expect.arrayContaining([
+          { name: { $regex: '\\(a\\+\\)\\+\\$', $options: 'i' } },
+        ])
+      });
+    });
+
+    it('should ignore a search term that is not a string', async () => {
+      await queryToolkit.findWithOptions({ q: { $ne: null } as any });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+
+    it('should strip $-prefixed operators and nested objects from filter values', async () => {
+      await queryToolkit.findWithOptions({
+        status: { $ne: 'banned' },
+        'role[$gt]': '',
+        'status[eq]': { $regex: '.*' },
+        role: ['admin', { $gt: '' }],
+      });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+
+    it('should drop sort, select and populate fields with invalid names', async () => {
+      await queryToolkit.findWithOptions({ sort: '$natural,-name', select: '+password,name', populate: '$where,profile' });
+
+      expect(mockSort).toHaveBeenCalledWith({ name: -1, _id: -1 });
+      expect(mockSelect).toHaveBeenCalledWith('name');
+      expect(mockPopulate).toHaveBeenCalledTimes(1);
+      expect(mockPopulate).toHaveBeenCalledWith('profile');
+    });
+  });
+
+  describe('Strict mode', () => {
+    let strictToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      strictToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: ['name', 'email'],
+        filterableFields: ['status', { field: 'role', enum: ['admin', 'user'] }],
+        selectableFields: ['name', 'email'],
+        populatableFields: ['profile'],
+        strict: true,
+      });
+    });
+
+    it('should run valid queries as usual', async () => {
+      await strictToolkit.findWithOptions({ q: 'john', role: 'admin', select: 'name', populate: 'profile', page: 1 });
+
+      expect(mockFind).toHaveBeenCalled();
+    });
+
+    it('should throw a QueryValidationError listing every rejected parameter', async () => {
+      let error: any;
+
+      try {
+        await strictToolkit.findWithOptions({
+          sort: '$natural',
+          select: 'name,password',
+          populate: 'secrets',
+          role: 'superadmin',
+          'status[regex]': '.*',
+          salary: '1000',
+        });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error.issues.map((issue: any) => issue.parameter)).toEqual([
+        'status[regex]',
+        'role',
+        'salary',
+        'sort',
+        'select',
+        'populate',
+      ]);
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+
+    it('should validate countWithOptions as well', async () => {
+      await expect(
+        strictToolkit.countWithOptions({ status: { $where: 'true' }, page: 2 })
+      ).rejects.toThrow(QueryValidationError);
+      expect(mockCountDocuments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Search modes', () => {
+    it('should build a $text query with a score projection in text mode', async () => {
+      const textToolkit = new QueryToolkit(UserModel as any, { searchMode: 'text' });
+
+      await textToolkit.findWithOptions({ q: 'john smith', sort: 'relevance,name' });
+
+      expect(mockFind).toHaveBeenCalledWith({ $text: { $search: 'john smith' } });
+      expect(mockSelect).toHaveBeenCalledWith({ score: { $meta: 'textScore' } });
+      expect(mockSort).toHaveBeenCalledWith({ score: { $meta: 'textScore' }, name: 1, _id: 1 });
+    });
+
+    it('should keep the score projection when filters and scopes wrap $text in $and', async () => {
+      const textToolkit = new QueryToolkit(UserModel as any, {
+        searchMode: 'text',
+        filterableFields: ['status'],
+        scopes: { notDeleted: { deletedAt: null } },
+      });
+      const options = { q: 'john', status: 'active', sort: 'relevance' };
+
+      await textToolkit.findWithOptions(options);
+      const compiled = await textToolkit.buildQuery(options);
+
+      const filter = { $and: [{ deletedAt: null }, { $text: { $search: 'john' } }, { status: 'active' }] };
+      expect(mockFind).toHaveBeenCalledWith(filter);
+      expect(mockSelect).toHaveBeenCalledWith({ score: { $meta: 'textScore' } });
+      expect(compiled.filter).toEqual(filter);
+      expect(compiled.projection).toEqual({ score: { $meta: 'textScore' } });
+    });
+
+    it('should drop relevance sort without a search term', async () => {
+      const textToolkit = new QueryToolkit(UserModel as any, { searchMode: 'text' });
+
+      await textToolkit.findWithOptions({ sort: 'relevance' });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+      expect(mockSort).not.toHaveBeenCalled();
+      expect(mockSelect).not.toHaveBeenCalled();
+    });
+
+    it('should build anchored regexes in prefix mode', async () => {
+      const prefixToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: ['name', 'email'],
+        searchMode: 'prefix',
+      });
+
+      await prefixToolkit.findWithOptions({ q: 'jo.' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $or: [
+          { name: { $regex: '^jo\\.' } },
+          { email: { $regex: '^jo\\.' } },
+        ]
+      });
+    });
+
+    it('should accept weighted search fields and describe the matching text index', async () => {
+      const weightedToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: [{ field: 'name', weight: 10 }, 'email'],
+      });
+
+      await weightedToolkit.findWithOptions({ q: 'john' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $or: [
+          { name: { $regex: 'john', $options: 'i' } },
+          { email: { $regex: 'john', $options: 'i' } },
+        ]
+      });
+      expect(weightedToolkit.getTextIndexDefinition()).toEqual([
+        { name: 'text', email: 'text' },
+        { weights: { name: 10, email: 1 } },
+      ]);
+    });
+  });
+
+  describe('Search syntax', () => {
+    const regex = (pattern: string) => ({ $regex: pattern, $options: 'i' });
+
+    it('should AND multiple terms', async () => {
+      await queryToolkit.findWithOptions({ q: 'john admin' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [
+          { $or: [{ name: regex('john') }, { email: regex('john') }] },
+          { $or: [{ name: regex('admin') }, { email: regex('admin') }] },
+        ]
+      });
+    });
+
+    it('should match quoted phrases as a whole', async () => {
+      await queryToolkit.findWithOptions({ q: '"john smith"' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $or: [{ name: regex('john smith') }, { email: regex('john smith') }]
+      });
+    });
+
+    it('should scope a term to a single search field', async () => {
+      await queryToolkit.findWithOptions({ q: 'email:gmail.com' });
+
+      expect(mockFind).toHaveBeenCalledWith({ email: regex('gmail\\.com') });
+    });
+
+    it('should search scopes on non-searchable fields literally', async () => {
+      await queryToolkit.findWithOptions({ q: 'password:secret' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $or: [{ name: regex('password:secret') }, { email: regex('password:secret') }]
+      });
+    });
+
+    it('should exclude negated terms from every field', async () => {
+      await queryToolkit.findWithOptions({ q: 'john -spam -name:"bot account"' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [
+          { $or: [{ name: regex('john') }, { email: regex('john') }] },
+          { $and: [{ name: { $not: regex('spam') } }, { email: { $not: regex('spam') } }] },
+          { name: { $not: regex('bot account') } },
+        ]
+      });
+    });
+
+    it('should ignore a search term made only of whitespace', async () => {
+      await queryToolkit.findWithOptions({ q: '   ' });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('Pagination guardrails', () => {
+    let guardedToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      guardedToolkit = new QueryToolkit(UserModel as any, {
+        defaultLimit: 25,
+        maxLimit: 100,
+        maxSkip: 1000,
+      });
+    });
+
+    it('should use the default limit when none is given', async () => {
+      const result = await guardedToolkit.findWithOptions({});
+
+      expect(mockSkip().limit).toHaveBeenCalledWith(25);
+      expect(result.limit).toBe(25);
+      expect(result.page).toBe(1);
+    });
+
+    it('should keep the default limit within maxLimit', async () => {
+      expect(() => new QueryToolkit(UserModel as any, { defaultLimit: 100, maxLimit: 50 })).toThrow(
+        'defaultLimit (100) cannot exceed maxLimit (50)'
+      );
+
+      await new QueryToolkit(UserModel as any, { maxLimit: 5 }).findWithOptions({});
+      expect(mockSkip().limit).toHaveBeenCalledWith(5);
+    });
+
+    it('should clamp out-of-range values and report the effective ones', async () => {
+      const result = await guardedToolkit.findWithOptions({ page: -3, limit: 1000000 });
+
+      expect(mockSkip).toHaveBeenCalledWith(0);
+      expect(mockSkip().limit).toHaveBeenCalledWith(100);
+      expect(result.page).toBe(1);
+      expect(result.limit).toBe(100);
+    });
+
+    it('should never produce an infinite number of pages', async () => {
+      mockCountDocuments.mockResolvedValue(30);
+
+      const result = await guardedToolkit.findWithOptions({ limit: 0 });
+
+      expect(result.limit).toBe(1);
+      expect(result.totalPages).toBe(30);
+    });
+
+    it('should accept numeric strings and fall back on non-numeric values', async () => {
+      const result = await guardedToolkit.findWithOptions({ page: '2' as any, limit: 'abc' as any });
+
+      expect(mockSkip).toHaveBeenCalledWith(25);
+      expect(result.page).toBe(2);
+      expect(result.limit).toBe(25);
+    });
+
+    it('should cap the page so that skip stays within maxSkip', async () => {
+      const result = await guardedToolkit.findWithOptions({ page: 500, limit: 100 });
+
+      expect(mockSkip).toHaveBeenCalledWith(1000);
+      expect(result.page).toBe(11);
+    });
+
+    it('should reject invalid values in strict mode', async () => {
+      const strictToolkit = new QueryToolkit(UserModel as any, { maxLimit: 100, strict: true });
+
+      await expect(strictToolkit.findWithOptions({ page: 1.5, limit: 500 })).rejects.toMatchObject({
+        issues: [
+          { parameter: 'limit', value: 500, reason: 'Must be at most 100' },
+          { parameter: 'page', value: 1.5, reason: 'Must be an integer' },
+        ],
+      });
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+
+    it('should apply the limit bounds to findWithCursor', async () => {
+      const result = await guardedToolkit.findWithCursor({ limit: 5000 });
+
+      expect(mockLimit).toHaveBeenCalledWith(101);
+      expect(result.limit).toBe(100);
+    });
+  });
+
+  describe('Pagination metadata', () => {
+    it('should report next and previous pages and offsets', async () => {
+      mockCountDocuments.mockResolvedValue(25);
+
+      const result = await queryToolkit.findWithOptions({ page: 2, limit: 10 });
+
+      expect(result).toMatchObject({ nextPage: 3, prevPage: 1, pagingCounter: 11, offset: 10 });
+    });
+
+    it('should report null pages at the edges', async () => {
+      mockCountDocuments.mockResolvedValue(5);
+
+      const result = await queryToolkit.findWithOptions({ page: 1, limit: 10 });
+
+      expect(result).toMatchObject({ nextPage: null, prevPage: null, pagingCounter: 1, offset: 0 });
+    });
+
+    it('should build page links and a Link header', async () => {
+      mockCountDocuments.mockResolvedValue(25);
+      const options = { status: 'active', page: 2, limit: 10 };
+
+      const result = await queryToolkit.findWithOptions(options);
+      const links = QueryToolkit.buildLinks(result, 'https://api.example.com/users', options);
+
+      expect(links).toEqual({
+        self: 'https://api.example.com/users?status=active&page=2&limit=10',
+        first: 'https://api.example.com/users?status=active&page=1&limit=10',
+        prev: 'https://api.example.com/users?status=active&page=1&limit=10',
+        next: 'https://api.example.com/users?status=active&page=3&limit=10',
+        last: 'https://api.example.com/users?status=active&page=3&limit=10',
+        header: [
+          '<https://api.example.com/users?status=active&page=2&limit=10>; rel="self"',
+          '<https://api.example.com/users?status=active&page=1&limit=10>; rel="first"',
+          '<https://api.example.com/users?status=active&page=1&limit=10>; rel="prev"',
+          '<https://api.example.com/users?status=active&page=3&limit=10>; rel="next"',
+          '<https://api.example.com/users?status=active&page=3&limit=10>; rel="last"',
+        ].join(', '),
+      });
+    });
+
+    it('should omit the last link when the total is unknown', async () => {
+      mockExec.mockResolvedValue([{ name: 'A' }, { name: 'B' }]);
+
+      const result = await queryToolkit.findWithOptions({ limit: 1, count: 'none' });
+      const links = QueryToolkit.buildLinks(result, '/users?v=2');
+
+      expect(links.next).toBe('/users?v=2&page=2&limit=1');
+      expect(links.prev).toBeNull();
+      expect(links.last).toBeNull();
+      expect(links.header).not.toContain('rel="last"');
+    });
+  });
+
+  describe('Count modes', () => {
+    it('should report exact counts by default', async () => {
+      mockCountDocuments.mockResolvedValue(15);
+
+      const result = await queryToolkit.findWithOptions({ status: 'active' });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({ status: 'active' });
+      expect(result.countMode).toBe('exact');
+      expect(result.totalDocs).toBe(15);
+    });
+
+    it('should use estimatedDocumentCount when there is no filter', async () => {
+      mockEstimatedDocumentCount.mockResolvedValue(1000);
+
+      const result = await queryToolkit.findWithOptions({ count: 'estimated', limit: 10 });
+
+      expect(mockEstimatedDocumentCount).toHaveBeenCalled();
+      expect(mockCountDocuments).not.toHaveBeenCalled();
+      expect(result.countMode).toBe('estimated');
+      expect(result.totalDocs).toBe(1000);
+      expect(result.totalPages).toBe(100);
+    });
+
+    it('should fall back to an exact count when an estimate is requested with a filter', async () => {
+      mockCountDocuments.mockResolvedValue(3);
+
+      const result = await queryToolkit.findWithOptions({ count: 'estimated', status: 'active' });
+
+      expect(mockEstimatedDocumentCount).not.toHaveBeenCalled();
+      expect(mockCountDocuments).toHaveBeenCalledWith({ status: 'active' });
+      expect(result.countMode).toBe('exact');
+    });
+
+    it('should skip counting and detect the next page with an extra document', async () => {
+      mockExec.mockResolvedValue([{ name: 'A' }, { name: 'B' }, { name: 'C' }]);
+
+      const result = await queryToolkit.findWithOptions({ count: 'none', page: 2, limit: 2 });
+
+      expect(mockCountDocuments).not.toHaveBeenCalled();
+      expect(mockSkip).toHaveBeenCalledWith(2);
+      expect(mockSkip().limit).toHaveBeenCalledWith(3);
+      expect(result).toEqual({
+        docs: [{ name: 'A' }, { name: 'B' }],
+        totalDocs: null,
+        limit: 2,
+        page: 2,
+        totalPages: null,
+        countMode: 'none',
+        hasNextPage: true,
+        hasPrevPage: true,
+        nextPage: 3,
+        prevPage: 1,
+        pagingCounter: 3,
+        offset: 2,
+      });
+    });
+  });
+
+  describe('findWithCursor', () => {
+    const ids = Array.from({ length: 4 }, () => new Types.ObjectId());
+    const users = ids.map((_id, i) => ({ _id, name: `User ${i}`, createdAt: new Date(2024, 0, i + 1) }));
+
+    it('should fetch one extra document instead of counting', async () => {
+      mockExec.mockResolvedValue(users.slice(0, 3));
+
+      const result = await queryToolkit.findWithCursor({ limit: 2, sort: '-createdAt' });
+
+      expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(mockLimit).toHaveBeenCalledWith(3);
+      expect(mockCountDocuments).not.toHaveBeenCalled();
+      expect(result.docs).toEqual(users.slice(0, 2));
+      expect(result.hasNextPage).toBe(true);
+      expect(result.hasPrevPage).toBe(false);
+      expect(result.nextCursor).toEqual(expect.any(String));
+      expect(result.prevCursor).toBeNull();
+    });
+
+    it('should build a keyset predicate from the after cursor', async () => {
+      mockExec.mockResolvedValue(users.slice(0, 3));
+      const { nextCursor } = await queryToolkit.findWithCursor({ limit: 2, sort: '-createdAt,name' });
+
+      mockExec.mockResolvedValue(users.slice(2, 4));
+      const result = await queryToolkit.findWithCursor({ limit: 2, sort: '-createdAt,name', after: nextCursor! });
+
+      expect(mockFind).toHaveBeenLastCalledWith({
+        $or: [
+          { $or: [{ createdAt: { $lt: users[1].createdAt } }, { createdAt: null }] },
+          { createdAt: users[1].createdAt, name: { $gt: 'User 1' } },
+          { createdAt: users[1].createdAt, name: 'User 1', _id: { $gt: ids[1] } },
+        ],
+      });
+      expect(result.hasNextPage).toBe(false);
+      expect(result.hasPrevPage).toBe(true);
+      expect(result.nextCursor).toBeNull();
+      expect(result.prevCursor).toEqual(expect.any(String));
+    });
+
+    it('should page backwards with the before cursor', async () => {
+      mockExec.mockResolvedValue(users.slice(0, 3));
+      const { nextCursor } = await queryToolkit.findWithCursor({ limit: 2, sort: 'name' });
+
+      // Reversed sort returns the preceding documents nearest first
+      mockExec.mockResolvedValue([users[1], users[0]]);
+      const result = await queryToolkit.findWithCursor({ limit: 2, sort: 'name', before: nextCursor! });
+
+      expect(mockFind).toHaveBeenLastCalledWith({
+        $or: [
+          { $or: [{ name: { $lt: 'User 1' } }, { name: null }] },
+          { name: 'User 1', _id: { $lt: ids[1] } },
+        ],
+      });
+      expect(mockSort).toHaveBeenLastCalledWith({ name: -1, _id: -1 });
+      expect(result.docs).toEqual([users[0], users[1]]);
+      expect(result.hasNextPage).toBe(true);
+      expect(result.hasPrevPage).toBe(false);
+    });
+
+    it('should combine the cursor predicate with search using $and', async () => {
+      mockExec.mockResolvedValue(users.slice(0, 3));
+      const { nextCursor } = await queryToolkit.findWithCursor({ limit: 2 });
+
+      mockExec.mockResolvedValue([]);
+      await queryToolkit.findWithCursor({ q: 'john', status: 'active', after: nextCursor! });
+
+      expect(mockFind).toHaveBeenLastCalledWith({
+        $and: [
+          { $or: expect.arrayContaining([{ name: { $regex: 'john', $options: 'i' } }]) },
+          { status: 'active' },
+          { $or: [{ _id: { $gt: ids[1] } }] },
+        ],
+      });
+    });
+
+    it('should keep sort keys in the projection for cursors and strip them from the docs', async () => {
+      mockExec.mockResolvedValue(users.slice(0, 3));
+      const first = await queryToolkit.findWithCursor({ limit: 2, sort: '-createdAt', select: 'name' });
+
+      expect(mockSelect).toHaveBeenCalledWith('name createdAt');
+      expect(first.docs).toEqual([{ _id: ids[0], name: 'User 0' }, { _id: ids[1], name: 'User 1' }]);
+
+      mockExec.mockResolvedValue([]);
+      await queryToolkit.findWithCursor({ limit: 2, sort: '-createdAt', select: 'name', after: first.nextCursor! });
+
+      expect(mockFind).toHaveBeenLastCalledWith({
+        $or: [
+          { $or: [{ createdAt: { $lt: users[1].createdAt } }, { createdAt: null }] },
+          { createdAt: users[1].createdAt, _id: { $lt: ids[1] } },
+        ],
+      });
+    });
+
+    it('should continue past documents without a sort value', async () => {
+      const cursor = Buffer.from(JSON.stringify([null, { $oid: ids[0].toHexString() }])).toString('base64url');
+      mockExec.mockResolvedValue([]);
+
+      await queryToolkit.findWithCursor({ sort: 'name', after: cursor });
+
+      expect(mockFind).toHaveBeenLastCalledWith({
+        $or: [{ name: { $ne: null } }, { name: null, _id: { $gt: ids[0] } }],
+      });
+    });
+
+    it('should coerce the _id cursor value to an ObjectId', async () => {
+      const cursor = Buffer.from(JSON.stringify([ids[0].toHexString()])).toString('base64url');
+      mockExec.mockResolvedValue([]);
+
+      await queryToolkit.findWithCursor({ after: cursor });
+
+      expect(mockFind).toHaveBeenLastCalledWith({ $or: [{ _id: { $gt: ids[0] } }] });
+    });
+
+    it('should reject cursors containing operators or regexes', async () => {
+      const strictToolkit = new QueryToolkit(UserModel as any, { strict: true });
+      const injected = [
+        [{ $ne: 'zzz' }, ids[0].toHexString()],
+        [{ $regex: '(a+)+$', $options: '' }, ids[0].toHexString()],
+        ['active', 'not-an-id'],
+      ];
+
+      for (const values of injected) {
+        const cursor = Buffer.from(JSON.stringify(values)).toString('base64url');
+
+        await expect(strictToolkit.findWithCursor({ sort: 'status', after: cursor })).rejects.toMatchObject({
+          issues: [{ parameter: 'after', value: cursor, reason: 'Invalid cursor' }],
+        });
+      }
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an invalid cursor outside strict mode', async () => {
+      mockExec.mockResolvedValue([]);
+
+      await queryToolkit.findWithCursor({ after: 'not-a-cursor' });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('findWithAggregate', () => {
+    const mockAggregateExec = jest.fn<() => Promise<any[]>>();
+    const mockAggregate = jest.fn().mockReturnValue({ exec: mockAggregateExec });
+    let aggregateToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      const schema = new Schema({
+        name: String,
+        status: String,
+        profile: { type: Schema.Types.ObjectId, ref: 'Profile' },
+        posts: [{ type: Schema.Types.ObjectId, ref: 'Post' }],
+      });
+      const db = { model: (name: string) => ({ collection: { name: `${name.toLowerCase()}s` } }) };
+
+      aggregateToolkit = new QueryToolkit({ ...UserModel, schema, db, aggregate: mockAggregate } as any, {
+        searchFields: ['name'],
+        filterableFields: ['status', 'profile.country', { field: 'postCount', type: 'number' }],
+        computedFields: { postCount: { $size: '$posts' } },
+      });
+    });
+
+    beforeEach(() => {
+      mockAggregateExec.mockResolvedValue([{ docs: [{ name: 'John' }], totalDocs: [{ count: 21 }] }]);
+    });
+
+    it('should compile options into a single pipeline with a $facet', async () => {
+      const result = await aggregateToolkit.findWithAggregate({
+        q: 'john',
+        status: 'active',
+        'postCount[gte]': '5',
+        'profile.country': 'NL',
+        populate: 'profile,posts',
+        sort: '-postCount',
+        select: 'name,postCount,profile',
+        page: 2,
+        limit: 10,
+      });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $match: { $and: [{ $or: [{ name: { $regex: 'john', $options: 'i' } }] }, { status: 'active' }] } },
+        { $lookup: { from: 'profiles', localField: 'profile', foreignField: '_id', as: 'profile' } },
+        { $unwind: { path: '$profile', preserveNullAndEmptyArrays: true } },
+        { $lookup: { from: 'posts', localField: 'posts', foreignField: '_id', as: 'posts' } },
+        { $addFields: { postCount: { $size: '$posts' } } },
+        { $match: { 'profile.country': 'NL', postCount: { $gte: 5 } } },
+        { $sort: { postCount: -1, _id: -1 } },
+        {
+          $facet: {
+            docs: [{ $skip: 10 }, { $limit: 10 }, { $project: { name: 1, postCount: 1, profile: 1 } }],
+            totalDocs: [{ $count: 'count' }],
+          },
+        },
+      ]);
+      expect(mockFind).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        docs: [{ name: 'John' }],
+        totalDocs: 21,
+        page: 2,
+        totalPages: 3,
+        countMode: 'exact',
+        hasNextPage: true,
+      });
+    });
+
+    it('should report zero documents when the facet count is empty', async () => {
+      mockAggregateExec.mockResolvedValue([{ docs: [], totalDocs: [] }]);
+
+      const result = await aggregateToolkit.findWithAggregate({});
+
+      expect(result.totalDocs).toBe(0);
+      expect(result.totalPages).toBe(0);
+    });
+
+    it('should skip the count facet when counting is disabled', async () => {
+      mockAggregateExec.mockResolvedValue([{ name: 'A' }, { name: 'B' }, { name: 'C' }]);
+
+      const result = await aggregateToolkit.findWithAggregate({ limit: 2, count: 'none' });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $skip: 0 },
+        { $limit: 3 },
+        { $addFields: { postCount: { $size: '$posts' } } },
+      ]);
+      expect(result.docs).toHaveLength(2);
+      expect(result.hasNextPage).toBe(true);
+      expect(result.totalDocs).toBeNull();
+    });
+
+    it('should only run lookups and computed fields on the page when filters and sort do not need them', async () => {
+      await aggregateToolkit.findWithAggregate({ status: 'active', populate: 'profile', sort: 'name', limit: 10 });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $match: { status: 'active' } },
+        { $sort: { name: 1, _id: 1 } },
+        {
+          $facet: {
+            docs: [
+              { $skip: 0 },
+              { $limit: 10 },
+              { $lookup: { from: 'profiles', localField: 'profile', foreignField: '_id', as: 'profile' } },
+              { $unwind: { path: '$profile', preserveNullAndEmptyArrays: true } },
+              { $addFields: { postCount: { $size: '$posts' } } },
+            ],
+            totalDocs: [{ $count: 'count' }],
+          },
+        },
+      ]);
+    });
+
+    it('should run lookups and computed fields before sorting on them', async () => {
+      await aggregateToolkit.findWithAggregate({ populate: 'profile', sort: '-postCount', limit: 10 });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $lookup: { from: 'profiles', localField: 'profile', foreignField: '_id', as: 'profile' } },
+        { $unwind: { path: '$profile', preserveNullAndEmptyArrays: true } },
+        { $addFields: { postCount: { $size: '$posts' } } },
+        { $sort: { postCount: -1, _id: -1 } },
+        { $facet: { docs: [{ $skip: 0 }, { $limit: 10 }], totalDocs: [{ $count: 'count' }] } },
+      ]);
+    });
+
+    it('should drop populate paths that are not references', async () => {
+      await aggregateToolkit.findWithAggregate({ populate: 'name' });
+
+      const pipeline = mockAggregate.mock.calls[0][0] as any[];
+      expect(pipeline.some((stage) => '$lookup' in stage)).toBe(false);
+    });
+  });
+
+  describe('Facets', () => {
+    const mockAggregateExec = jest.fn<() => Promise<any[]>>();
+    const mockAggregate = jest.fn().mockReturnValue({ exec: mockAggregateExec });
+    let facetToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      const schema = new Schema({ status: String, tags: [String], price: Number, createdAt: Date });
+
+      facetToolkit = new QueryToolkit({ ...UserModel, schema, aggregate: mockAggregate } as any, {
+        searchFields: ['name'],
+        filterableFields: ['status'],
+        facetableFields: [
+          'status',
+          { field: 'tags', limit: 5 },
+          { field: 'price', type: 'range', boundaries: [0, 100, 500] },
+          { field: 'createdAt', type: 'date', interval: 'year' },
+        ],
+      });
+    });
+
+    it('should count values for every facetable field using the current filters', async () => {
+      mockAggregateExec.mockResolvedValue([{
+        0: [{ _id: 'active', count: 7 }, { _id: 'pending', count: 2 }],
+        1: [{ _id: 'new', count: 3 }],
+        2: [{ _id: 0, count: 4 }, { _id: 'other', count: 1 }],
+        3: [{ _id: new Date('2024-01-01'), count: 9 }],
+      }]);
+
+      const result = await facetToolkit.facetWithOptions({ status: 'active' });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $match: { status: 'active' } },
+        {
+          $facet: {
+            0: [{ $group: { _id: '$status', count: { $sum: 1 } } }, { $sort: { count: -1, _id: 1 } }, { $limit: 10 }],
+            1: [
+              { $unwind: '$tags' },
+              { $group: { _id: '$tags', count: { $sum: 1 } } },
+              { $sort: { count: -1, _id: 1 } },
+              { $limit: 5 },
+            ],
+            2: [{ $bucket: { groupBy: '$price', boundaries: [0, 100, 500], default: 'other', output: { count: { $sum: 1 } } } }],
+            3: [
+              { $match: { createdAt: { $type: 'date' } } },
+              { $group: { _id: { $dateTrunc: { date: '$createdAt', unit: 'year' } }, count: { $sum: 1 } } },
+              { $sort: { _id: 1 } },
+            ],
+          },
+        },
+      ]);
+      expect(result.facets).toEqual({
+        status: [{ value: 'active', count: 7 }, { value: 'pending', count: 2 }],
+        tags: [{ value: 'new', count: 3 }],
+        price: [{ value: 0, count: 4 }, { value: 'other', count: 1 }],
+        createdAt: [{ value: new Date('2024-01-01'), count: 9 }],
+      });
+    });
+
+    it('should only count the requested facetable fields', async () => {
+      mockAggregateExec.mockResolvedValue([{ 0: [{ _id: 'active', count: 1 }] }]);
+
+      const result = await facetToolkit.facetWithOptions({ facets: 'status,salary' });
+
+      expect(Object.keys(result.facets)).toEqual(['status']);
+    });
+
+    it('should return facets alongside findWithOptions results', async () => {
+      mockAggregateExec.mockResolvedValue([{ 0: [{ _id: 'active', count: 3 }] }]);
+      mockCountDocuments.mockResolvedValue(3);
+
+      const result = await facetToolkit.findWithOptions({ q: 'john', facets: 'status' });
+
+      expect(mockAggregate).toHaveBeenCalledWith([
+        { $match: { $or: [{ name: { $regex: 'john', $options: 'i' } }] } },
+        expect.objectContaining({ $facet: expect.any(Object) }),
+      ]);
+      expect(result.totalDocs).toBe(3);
+      expect(result.facets).toEqual({ status: [{ value: 'active', count: 3 }] });
+    });
+
+    it('should require boundaries for range facets', () => {
+      expect(() => new QueryToolkit(UserModel as any, {
+        facetableFields: [{ field: 'price', type: 'range' }],
+      })).toThrow('Facet "price" of type "range" requires boundaries');
+    });
+  });
+
+  describe('Request parsing', () => {
+    it('should parse a query string into QueryOptions', () => {
+      const options = QueryToolkit.parseQuery('?q=john&page=2&limit=20&sort=-createdAt&price[gte]=10&status[]=a&status[]=b');
+
+      expect(options).toEqual({
+        q: 'john',
+        page: 2,
+        limit: 20,
+        sort: '-createdAt',
+        'price[gte]': '10',
+        status: { in: ['a', 'b'] },
+      });
+    });
+
+    it('should normalize a parsed req.query object', () => {
+      const options = QueryToolkit.parseQuery({
+        page: '3',
+        limit: 'abc',
+        sort: ['name', '-createdAt'],
+        role: ['admin', 'user'],
+        price: { gte: '10', lt: '50' },
+        q: { $ne: null },
+      });
+
+      expect(options).toEqual({
+        page: 3,
+        limit: 'abc',
+        sort: 'name,-createdAt',
+        role: { in: ['admin', 'user'] },
+        price: { gte: '10', lt: '50' },
+        q: { $ne: null },
+      });
+    });
+
+    it('should serialize QueryOptions back into a query string', () => {
+      const queryString = QueryToolkit.toQueryString({
+        q: 'john smith',
+        page: 2,
+        status: { in: ['active', 'pending'] },
+        'price[gte]': 10,
+        createdAt: { gte: new Date('2024-01-01T00:00:00.000Z') },
+      });
+
+      expect(queryString).toBe(
+        'q=john%20smith&page=2&status[in]=active&status[in]=pending&price[gte]=10&createdAt[gte]=2024-01-01T00%3A00%3A00.000Z'
+      );
+    });
+
+    it('should round-trip through toQueryString and parseQuery', () => {
+      const options = { q: 'john', page: 2, sort: '-name', 'status[in]': ['a', 'b'] };
+
+      expect(QueryToolkit.parseQuery(QueryToolkit.toQueryString(options))).toEqual(options);
+    });
+
+    it('should run a raw request query with findFromRequest', async () => {
+      await queryToolkit.findFromRequest({ status: 'active', role: ['admin', 'user'], page: '2', limit: '5' });
+
+      expect(mockFind).toHaveBeenCalledWith({ status: 'active', role: { $in: ['admin', 'user'] } });
+      expect(mockSkip).toHaveBeenCalledWith(5);
+    });
+  });
+
+  describe('Nested and filtered populate', () => {
+    let populateToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      populateToolkit = new QueryToolkit(UserModel as any, {
+        populatableFields: [
+          { field: 'author', select: ['name', 'email', 'avatar'] },
+          { field: 'comments', select: ['text', 'createdAt'], match: { hidden: false }, sort: '-createdAt', limit: 5 },
+          'comments.author',
+          'profile',
+        ],
+        maxPopulateDepth: 2,
+      });
+    });
+
+    it('should populate plain paths as strings', async () => {
+      await populateToolkit.findWithOptions({ populate: 'profile' });
+
+      expect(mockPopulate).toHaveBeenCalledWith('profile');
+    });
+
+    it('should select the requested sub-fields', async () => {
+      await populateToolkit.findWithOptions({ populate: 'author(name,email)' });
+
+      expect(mockPopulate).toHaveBeenCalledWith({ path: 'author', select: 'name email' });
+    });
+
+    it('should default to the allowed sub-fields and drop others', async () => {
+      await populateToolkit.findWithOptions({ populate: 'author(name,passwordHash,-email)' });
+      expect(mockPopulate).toHaveBeenLastCalledWith({ path: 'author', select: 'name' });
+
+      await populateToolkit.findWithOptions({ populate: 'author' });
+      expect(mockPopulate).toHaveBeenLastCalledWith({ path: 'author', select: 'name email avatar' });
+    });
+
+    it('should build nested populates with per-path options', async () => {
+      await populateToolkit.findWithOptions({ populate: 'author(name),comments.author' });
+
+      expect(mockPopulate).toHaveBeenCalledWith({ path: 'author', select: 'name' });
+      expect(mockPopulate).toHaveBeenCalledWith({
+        path: 'comments',
+        select: 'text createdAt author',
+        match: { hidden: false },
+        options: { sort: '-createdAt' },
+        perDocumentLimit: 5,
+        populate: ['author'],
+      });
+    });
+
+    it('should reject paths that are too deep or not populatable', async () => {
+      const openToolkit = new QueryToolkit(UserModel as any, { maxPopulateDepth: 2, strict: true });
+
+      await expect(openToolkit.findWithOptions({ populate: 'a.b.c' })).rejects.toMatchObject({
+        issues: [{ parameter: 'populate', value: 'a.b.c', reason: 'Populate depth is limited to 2' }],
+      });
+
+      await populateToolkit.findWithOptions({ populate: 'comments.author.company,secrets' });
+      expect(mockPopulate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reference filters', () => {
+    const mockRefExec = jest.fn<() => Promise<any[]>>();
+    const mockRefLimit = jest.fn().mockReturnValue({ lean: () => ({ exec: mockRefExec }) });
+    const mockRefFind = jest.fn().mockReturnValue({ limit: mockRefLimit });
+    const authorIds = [new Types.ObjectId(), new Types.ObjectId()];
+    let referenceToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      const authorSchema = new Schema({ role: String, age: Number });
+      const schema = new Schema({
+        title: String,
+        author: { type: Schema.Types.ObjectId, ref: 'Author' },
+      });
+      const db = { model: () => ({ find: mockRefFind, schema: authorSchema }) };
+
+      referenceToolkit = new QueryToolkit({ ...UserModel, schema, db } as any, {
+        filterableFields: ['title', 'author', 'author.role', 'author.age'],
+        maxReferenceIds: 2,
+      });
+    });
+
+    beforeEach(() => {
+      mockRefExec.mockResolvedValue(authorIds.map((_id) => ({ _id })));
+    });
+
+    it('should rewrite filters on referenced fields into an $in on the reference', async () => {
+      await referenceToolkit.findWithOptions({ title: 'Hello', 'author.role': 'admin', 'author.age[gte]': '30' });
+
+      expect(mockRefFind).toHaveBeenCalledWith({ role: 'admin', age: { $gte: 30 } }, { _id: 1 });
+      expect(mockRefLimit).toHaveBeenCalledWith(3);
+      expect(mockFind).toHaveBeenCalledWith({ title: 'Hello', author: { $in: authorIds } });
+    });
+
+    it('should keep a direct filter on the reference', async () => {
+      await referenceToolkit.countWithOptions({ author: authorIds[0].toHexString(), 'author.role': 'admin' });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({ author: { $eq: authorIds[0], $in: authorIds } });
+    });
+
+    it('should refuse to materialize more ids than allowed', async () => {
+      mockRefExec.mockResolvedValue([{ _id: 1 }, { _id: 2 }, { _id: 3 }]);
+
+      await expect(referenceToolkit.findWithOptions({ 'author.role': 'user' })).rejects.toThrow(
+        'Filter matches more than 2 referenced documents'
+      );
+      expect(mockFind).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Access policies', () => {
+    let policyToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      policyToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: ['name', 'email'],
+        filterableFields: ['status', 'role', 'email'],
+        accessPolicy: {
+          admin: {},
+          default: { hidden: ['email', 'profile.salary'], sortable: ['name'] },
+        },
+        strict: true,
+      });
+    });
+
+    it('should project out hidden fields even without a select', async () => {
+      await policyToolkit.findWithOptions({}, { context: { role: 'user' } });
+
+      expect(mockSelect).toHaveBeenCalledWith('-email -profile.salary');
+    });
+
+    it('should apply no restrictions for roles with open rules', async () => {
+      await policyToolkit.findWithOptions({ email: 'a@example.com', sort: '-status' }, { context: { role: 'admin' } });
+
+      expect(mockFind).toHaveBeenCalledWith({ email: 'a@example.com' });
+      expect(mockSort).toHaveBeenCalledWith({ status: -1, _id: -1 });
+      expect(mockSelect).not.toHaveBeenCalled();
+    });
+
+    it('should reject hidden fields and parents of hidden fields', async () => {
+      const error = await policyToolkit
+        .findWithOptions({ select: 'name,profile', sort: 'status', email: 'a@example.com' }, { context: {} })
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error.issues).toEqual([
+        { parameter: 'email', value: 'a@example.com', reason: 'Field is not filterable' },
+        { parameter: 'sort', value: 'status', reason: 'Field is not sortable' },
+        { parameter: 'select', value: 'profile', reason: 'Field is not selectable' },
+      ]);
+    });
+
+    it('should only search the fields the caller may search', async () => {
+      await policyToolkit.countWithOptions({ q: 'john' }, { context: {} });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({ $or: [{ name: { $regex: 'john', $options: 'i' } }] });
+    });
+
+    it('should reject text search over fields the caller may not search', async () => {
+      const textToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: ['name', 'email'],
+        searchMode: 'text',
+        accessPolicy: { admin: {}, default: { hidden: ['email'] } },
+      });
+
+      await textToolkit.countWithOptions({ q: 'john@example.com' }, { context: {} });
+      expect(mockCountDocuments).toHaveBeenLastCalledWith({});
+
+      await textToolkit.countWithOptions({ q: 'john@example.com' }, { context: { role: 'admin' } });
+      expect(mockCountDocuments).toHaveBeenLastCalledWith({ $text: { $search: 'john@example.com' } });
+
+      const strictToolkit = new QueryToolkit(UserModel as any, {
+        searchMode: 'text',
+        accessPolicy: { default: { searchable: ['name'] } },
+        strict: true,
+      });
+      await expect(strictToolkit.countWithOptions({ q: 'john' })).rejects.toMatchObject({
+        issues: [{ parameter: 'q', value: 'john', reason: 'Text search covers fields that are not searchable' }],
+      });
+    });
+
+    it('should resolve rules from a policy function', async () => {
+      const resolver = jest.fn(async (context: any) => (context.userId ? {} : { selectable: ['name'] }));
+      const toolkit = new QueryToolkit(UserModel as any, { accessPolicy: resolver });
+
+      await toolkit.findWithOptions({ select: 'name,status' }, { context: { tenant: 'acme' } });
+
+      expect(resolver).toHaveBeenCalledWith({ tenant: 'acme' });
+      expect(mockSelect).toHaveBeenCalledWith('name');
+    });
+
+    it('should throw for roles without rules when there is no default', async () => {
+      const toolkit = new QueryToolkit(UserModel as any, { accessPolicy: { admin: {} } });
+
+      await expect(toolkit.findWithOptions({}, { context: { role: 'guest' } })).rejects.toThrow(
+        'No access rules for role "guest"'
+      );
+    });
+  });
+
+  describe('Sorting policies', () => {
+    let sortToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      sortToolkit = new QueryToolkit(UserModel as any, {
+        sortableFields: ['name', 'profile.age'],
+        defaultSort: '-name',
+        sortAliases: { newest: '-createdAt', popular: '-likes,name' },
+      });
+    });
+
+    it('should apply the default sort with an _id tie-breaker', async () => {
+      await sortToolkit.findWithOptions({});
+
+      expect(mockSort).toHaveBeenCalledWith({ name: -1, _id: -1 });
+    });
+
+    it('should accept nested paths and drop fields that are not sortable', async () => {
+      await sortToolkit.findWithOptions({ sort: 'profile.age,email' });
+
+      expect(mockSort).toHaveBeenCalledWith({ 'profile.age': 1, _id: 1 });
+    });
+
+    it('should expand aliases and reverse them with a minus prefix', async () => {
+      await sortToolkit.findWithOptions({ sort: 'newest' });
+      expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+
+      await sortToolkit.findWithOptions({ sort: '-popular' });
+      expect(mockSort).toHaveBeenCalledWith({ likes: 1, name: -1, _id: -1 });
+    });
+
+    it('should reject fields that are not sortable in strict mode', async () => {
+      const toolkit = new QueryToolkit(UserModel as any, { sortableFields: ['name'], strict: true });
+
+      await expect(toolkit.findWithOptions({ sort: 'password' })).rejects.toThrow(
+        'Invalid query parameters: sort (Field is not sortable)'
+      );
+    });
+  });
+
+  describe('buildQuery and explainWithOptions', () => {
+    it('should compile options without running a query', async () => {
+      const toolkit = new QueryToolkit(UserModel as any, {
+        filterableFields: ['status'],
+        populatableFields: ['profile'],
+        searchFields: ['name'],
+      });
+
+      const compiled = await toolkit.buildQuery({
+        q: 'john',
+        status: 'active',
+        sort: '-createdAt',
+        select: 'name,email',
+        populate: 'profile',
+        page: 3,
+        limit: 5,
+      });
+
+      expect(compiled).toEqual({
+        filter: { $and: [{ $or: [{ name: { $regex: 'john', $options: 'i' } }] }, { status: 'active' }] },
+        sort: { createdAt: -1, _id: -1 },
+        projection: { name: 1, email: 1 },
+        populate: ['profile'],
+        skip: 10,
+        limit: 5,
+      });
+      expect(mockFind).not.toHaveBeenCalled();
+      expect(mockCountDocuments).not.toHaveBeenCalled();
+    });
+
+    it('should summarize the executionStats explain output', async () => {
+      const explain = {
+        queryPlanner: {
+          winningPlan: { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'status_1' } },
+        },
+        executionStats: { nReturned: 10, totalDocsExamined: 250, totalKeysExamined: 250, executionTimeMillis: 4 },
+      };
+      const mockExplain = jest.fn(() => ({ exec: async () => [explain] }));
+      const limit = jest.fn(() => ({ explain: mockExplain }));
+      const model = { ...UserModel, find: jest.fn(() => ({ skip: () => ({ limit }) })) };
+      const toolkit = new QueryToolkit(model as any, { filterableFields: ['status'] });
+
+      const result = await toolkit.explainWithOptions({ status: 'active', limit: 10 });
+
+      expect(model.find).toHaveBeenCalledWith({ status: 'active' });
+      expect(mockExplain).toHaveBeenCalledWith('executionStats');
+      expect(result).toMatchObject({
+        index: 'status_1',
+        collectionScan: false,
+        docsExamined: 250,
+        keysExamined: 250,
+        docsReturned: 10,
+        executionTimeMillis: 4,
+      });
+    });
+  });
+
+  describe('Index advisor', () => {
+    const createIndexedModel = (schema: Schema) => ({ ...UserModel, schema, db: { readyState: 0 } });
+
+    it('should report configured fields without a supporting index', async () => {
+      const schema = new Schema({ name: String, email: String, status: String, role: String, createdAt: Date });
+      schema.index({ status: 1, createdAt: -1 });
+      schema.index({ email: 1 }, { unique: true });
+      const toolkit = new QueryToolkit(createIndexedModel(schema) as any, {
+        searchFields: ['name', 'email'],
+        filterableFields: ['status', 'role'],
+        sortableFields: ['createdAt'],
+        sortAliases: { alphabetical: 'name' },
+      });
+
+      const report = await toolkit.analyzeIndexes();
+
+      expect(report.indexes).toEqual([{ _id: 1 }, { status: 1, createdAt: -1 }, { email: 1 }]);
+      expect(report.issues.map(({ field, usage }) => `${usage}:${field}`)).toEqual([
+        'filter:role',
+        'sort:createdAt',
+        'sort:name',
+        'search:name',
+      ]);
+    });
+
+    it('should report a missing text index in text mode', async () => {
+      const schema = new Schema({ name: String, bio: String });
+      schema.index({ name: 'text' });
+      const toolkit = new QueryToolkit(createIndexedModel(schema) as any, {
+        searchFields: ['name', 'bio'],
+        searchMode: 'text',
+      });
+
+      const report = await toolkit.analyzeIndexes();
+
+      expect(report.issues).toEqual([{ field: 'bio', usage: 'search', message: 'Not part of the text index' }]);
+    });
+
+    it('should suggest ESR compound indexes for presets', async () => {
+      const schema = new Schema({ status: String, role: String, price: Number, createdAt: Date });
+      schema.index({ status: 1, createdAt: -1 });
+      const toolkit = new QueryToolkit(createIndexedModel(schema) as any, {
+        filterableFields: ['status', 'role', { field: 'price', type: 'number' }],
+        sortableFields: ['createdAt'],
+      });
+      toolkit.definePreset('recent', { status: 'active', sort: '-createdAt' });
+      toolkit.definePreset('affordable', { 'price[lte]': 100, role: 'user', sort: '-createdAt' });
+
+      const report = await toolkit.analyzeIndexes();
+
+      expect(report.suggestions).toEqual([{ preset: 'affordable', index: { role: 1, createdAt: -1, price: 1 } }]);
+    });
+  });
+
+  describe('streamWithOptions', () => {
+    const users = [
+      { _id: '1', name: 'John Doe', email: 'john@example.com', status: 'active' },
+      { _id: '2', name: 'Smith, Jane', email: 'jane@example.com', status: 'active' },
+    ];
+    let mockCursor: jest.Mock;
+    let streamModel: any;
+
+    beforeEach(() => {
+      mockCursor = jest.fn(() => users);
+      const chain: any = { sort: jest.fn(() => chain), select: jest.fn(() => chain), populate: jest.fn(() => chain) };
+      chain.cursor = mockCursor;
+      streamModel = { ...UserModel, find: jest.fn(() => chain) };
+    });
+
+    const read = async (stream: AsyncIterable<any>) => {
+      const chunks: any[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      return chunks;
+    };
+
+    it('should stream every matching document, ignoring pagination', async () => {
+      const toolkit = new QueryToolkit(streamModel as any, { filterableFields: ['status'] });
+
+      const docs = await read(await toolkit.streamWithOptions({ status: 'active', page: 3, limit: 5 }, { batchSize: 200 }));
+
+      expect(streamModel.find).toHaveBeenCalledWith({ status: 'active' });
+      expect(mockCursor).toHaveBeenCalledWith({ batchSize: 200 });
+      expect(docs).toEqual(users);
+    });
+
+    it('should serialize NDJSON', async () => {
+      const toolkit = new QueryToolkit(streamModel as any);
+
+      const chunks = await read(await toolkit.streamWithOptions({}, { format: 'ndjson' }));
+
+      expect(chunks.join('').split('\n')).toEqual([JSON.stringify(users[0]), JSON.stringify(users[1]), '']);
+    });
+
+    it('should serialize CSV with the selected columns', async () => {
+      const toolkit = new QueryToolkit(streamModel as any, { fieldAliases: { fullName: 'name' }, renameResults: true });
+
+      const chunks = await read(await toolkit.streamWithOptions({ select: 'fullName,email' }, { format: 'csv' }));
+
+      expect(chunks.join('')).toBe('fullName,email\nJohn Doe,john@example.com\n"Smith, Jane",jane@example.com\n');
+    });
+
+    it('should default CSV columns to the keys of the first document', async () => {
+      const rows = [{ name: 'Say "hi"', tags: ['a', 'b'], createdAt: new Date('2024-01-01T00:00:00Z') }, { name: null }];
+
+      const chunks = await read(serializeCsv(rows));
+
+      expect(chunks.join('')).toBe('name,tags,createdAt\n"Say ""hi""","[""a"",""b""]",2024-01-01T00:00:00.000Z\n,,\n');
+    });
+
+    it('should run afterDocument hooks instead of afterQuery', async () => {
+      const afterQuery = jest.fn((result: any) => result.docs.forEach((doc: any) => delete doc.email));
+      const toolkit = new QueryToolkit(streamModel as any, {
+        hooks: {
+          afterQuery,
+          afterDocument: (doc, ctx) => (ctx.context.role === 'admin' ? doc : { ...doc, email: 'REDACTED' }),
+        },
+      });
+
+      const chunks = await read(await toolkit.streamWithOptions({ select: 'name,email' }, { format: 'csv' }));
+
+      expect(afterQuery).not.toHaveBeenCalled();
+      expect(chunks.join('')).toBe('name,email\nJohn Doe,REDACTED\n"Smith, Jane",REDACTED\n');
+    });
+
+    it('should neutralize values spreadsheets would run as formulas', async () => {
+      const rows = [{ name: '=HYPERLINK("http://evil.example")', note: '@SUM(A1)', phone: '+3161234', balance: -5 }];
+
+      const chunks = await read(serializeCsv(rows));
+
+      expect(chunks.join('')).toBe(
+        'name,note,phone,balance\n"\'=HYPERLINK(""http://evil.example"")",\'@SUM(A1),\'+3161234,-5\n'
+      );
+    });
+
+    it('should reject an invalid batch size', async () => {
+      const toolkit = new QueryToolkit(streamModel as any);
+
+      await expect(toolkit.streamWithOptions({}, { batchSize: 0 })).rejects.toThrow('batchSize must be a positive integer');
+    });
+  });
+
+  describe('Caching', () => {
+    let store: MemoryCacheStore;
+    let cacheModel: any;
+    let cachedToolkit: QueryToolkit<TestUser, LeanDocument<TestUser>>;
+
+    beforeEach(() => {
+      store = new MemoryCacheStore();
+      cacheModel = { ...UserModel, modelName: 'User', find: (query: any) => ({ lean: () => mockFind(query) }) };
+      cachedToolkit = new QueryToolkit(cacheModel, {
+        filterableFields: ['status', 'role'],
+        lean: true,
+        cache: { store, ttl: 30 },
+      });
+    });
+
+    it('should serve equivalent queries from the cache', async () => {
+      mockExec.mockResolvedValue([{ name: 'John' }]);
+
+      const first = await cachedToolkit.findWithOptions({ status: 'active', role: 'admin' });
+      const second = await cachedToolkit.findWithOptions({ role: 'admin', status: 'active' });
+
+      expect(mockFind).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it('should query again after invalidation or when a call skips the cache', async () => {
+      await cachedToolkit.countWithOptions({ status: 'active' });
+      await cachedToolkit.countWithOptions({ status: 'active' }, { cache: false });
+      await cachedToolkit.invalidateCache();
+      await cachedToolkit.countWithOptions({ status: 'active' });
+
+      expect(mockCountDocuments).toHaveBeenCalledTimes(3);
+    });
+
+    it('should use the TTL of a preset', async () => {
+      const set = jest.spyOn(store, 'set');
+      cachedToolkit.definePreset('dashboard', { status: 'active' }, { ttl: 300 });
+
+      await cachedToolkit.countWithPreset('dashboard');
+
+      expect(set).toHaveBeenCalledWith(expect.stringMatching(/^query:User:/), 0, 300);
+    });
+
+    it('should invalidate from model middleware', async () => {
+      const schema = { post: jest.fn() };
+      cacheInvalidationPlugin(schema as any, { store });
+      const invalidate = schema.post.mock.calls[0][1] as (this: any) => Promise<void>;
+
+      await cachedToolkit.countWithOptions({});
+      await invalidate.call({ model: { modelName: 'User' } });
+      await cachedToolkit.countWithOptions({});
+
+      expect(mockCountDocuments).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not let a caller change the cached result', async () => {
+      mockExec.mockResolvedValue([{ name: 'John', role: 'admin' }]);
+      const redact = new QueryToolkit(cacheModel, {
+        lean: true,
+        cache: { store },
+        hooks: {
+          afterQuery: (result, ctx) => {
+            if (ctx.context.role === 'user') result.docs.forEach((doc: any) => (doc.name = 'REDACTED'));
+          },
+        },
+      });
+
+      const first = await redact.findWithOptions({}, { context: { role: 'user' } });
+      const second = await redact.findWithOptions({}, { context: { role: 'admin' } });
+      second.docs[0].role = 'changed';
+      const third = await redact.findWithOptions({}, { context: { role: 'admin' } });
+
+      expect(mockFind).toHaveBeenCalledTimes(1);
+      expect(first.docs).toEqual([{ name: 'REDACTED', role: 'admin' }]);
+      expect(second.docs).toEqual([{ name: 'John', role: 'changed' }]);
+      expect(third.docs).toEqual([{ name: 'John', role: 'admin' }]);
+    });
+
+    it('should require lean or transformed output', async () => {
+      expect(() => new QueryToolkit(cacheModel, { cache: { store } })).toThrow(
+        'The cache option requires lean: true or a transform'
+      );
+
+      const hydrated = { ...cacheModel, find: mockFind };
+      const transformed = new QueryToolkit(hydrated, { transform: (doc) => ({ name: doc.name }), cache: { store } });
+      mockExec.mockResolvedValue([{ name: 'John' }]);
+      await transformed.findWithOptions({});
+      await transformed.findWithOptions({});
+
+      expect(mockFind).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache calls that ask for hydrated documents', async () => {
+      const hydrated = new QueryToolkit({ ...cacheModel, find: mockFind }, { lean: true, cache: { store } });
+      const set = jest.spyOn(store, 'set');
+
+      await hydrated.findWithOptions({}, { lean: false });
+      await hydrated.findWithOptions({}, { lean: false });
+
+      expect(mockFind).toHaveBeenCalledTimes(2);
+      expect(set).not.toHaveBeenCalledWith(expect.stringMatching(/^query:/), expect.anything(), expect.anything());
+    });
+
+    it('should evict the least recently used entry', async () => {
+      const lru = new MemoryCacheStore(2);
+      await lru.set('a', 1);
+      await lru.set('b', 2);
+      await lru.get('a');
+      await lru.set('c', 3);
+
+      expect(await lru.get('a')).toBe(1);
+      expect(await lru.get('b')).toBeUndefined();
+    });
+
+    it('should store EJSON with an expiry in Redis', async () => {
+      const data = new Map<string, string>();
+      const client = {
+        get: jest.fn(async (key: string) => data.get(key) ?? null),
+        set: jest.fn(async (key: string, value: string) => data.set(key, value)),
+        del: jest.fn(async (key: string) => data.delete(key)),
+      };
+      const redis = new RedisCacheStore(client);
+      const id = new Types.ObjectId();
+
+      await redis.set('key', { id }, 60);
+
+      expect(client.set).toHaveBeenCalledWith('mqt:key', expect.any(String), 'EX', 60);
+      expect(await redis.get('key')).toEqual({ id });
+    });
+  });
+
+  describe('Lifecycle hooks', () => {
+    it('should run hooks in order and let them replace options, filter and result', async () => {
+      const calls: string[] = [];
+      const toolkit = new QueryToolkit(UserModel as any, {
+        filterableFields: ['status'],
+        hooks: {
+          beforeParse: async (options) => {
+            calls.push('beforeParse');
+            return { ...options, status: 'active' };
+          },
+          beforeQuery: async (filter, options, ctx) => {
+            calls.push(`beforeQuery:${ctx.operation}`);
+            return { ...filter, tenantId: ctx.context.tenantId };
+          },
+        },
+      }).use({
+        afterQuery: async (result) => {
+          calls.push('afterQuery');
+          result.docs.forEach((doc: any) => delete doc.email);
+        },
+      });
+      mockExec.mockResolvedValue([{ name: 'John', email: 'john@example.com' }]);
+
+      const result = await toolkit.findWithOptions({}, { context: { tenantId: 't1' } });
+
+      expect(calls).toEqual(['beforeParse', 'beforeQuery:find', 'afterQuery']);
+      expect(mockFind).toHaveBeenCalledWith({ status: 'active', tenantId: 't1' });
+      expect(mockCountDocuments).toHaveBeenCalledWith({ status: 'active', tenantId: 't1' });
+      expect(result.docs).toEqual([{ name: 'John' }]);
+    });
+
+    it('should call onError and rethrow', async () => {
+      const onError = jest.fn(async () => undefined);
+      const toolkit = new QueryToolkit(UserModel as any, { strict: true, hooks: { onError } });
+
+      await expect(toolkit.countWithOptions({ password: 'x' })).rejects.toThrow(QueryValidationError);
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(QueryValidationError),
+        expect.objectContaining({ operation: 'count', options: { password: 'x' } })
+      );
+    });
+  });
+
+  describe('Lean and transformed output', () => {
+    const mockLean = jest.fn(() => mockFind());
+    const userId = new Types.ObjectId();
+    let leanToolkit: QueryToolkit<TestUser, { id: string; name: string }>;
+
+    beforeAll(() => {
+      const model = { ...UserModel, find: jest.fn(() => ({ lean: mockLean })) };
+
+      leanToolkit = new QueryToolkit(model as any, {
+        lean: true,
+        transform: (doc) => ({ id: doc._id.toHexString(), name: doc.name }),
+      });
+    });
+
+    it('should run lean queries and map each document', async () => {
+      mockExec.mockResolvedValue([{ _id: userId, name: 'John', __v: 0 }]);
+
+      const result = await leanToolkit.findWithOptions({});
+
+      expect(mockLean).toHaveBeenCalled();
+      expect(result.docs).toEqual([{ id: userId.toHexString(), name: 'John' }]);
+    });
+
+    it('should let a call opt out of the lean default', async () => {
+      const toolkit = new QueryToolkit(UserModel as any, { lean: true });
+
+      await toolkit.findWithOptions({}, { lean: false });
+
+      expect(mockFind).toHaveBeenCalledWith({});
+      expect(mockLean).not.toHaveBeenCalled();
+    });
+
+    it('should build cursors from the original documents', async () => {
+      mockExec.mockResolvedValue([{ _id: userId, name: 'John' }, { _id: new Types.ObjectId(), name: 'Jane' }]);
+
+      const result = await leanToolkit.findWithCursor({ limit: 1, sort: 'name' });
+
+      expect(result.docs).toEqual([{ id: userId.toHexString(), name: 'John' }]);
+      expect(result.nextCursor).not.toBeNull();
+    });
+  });
+
+  describe('Filter groups', () => {
+    let groupToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      groupToolkit = new QueryToolkit(UserModel as any, {
+        filterableFields: ['status', 'role', 'country', { field: 'age', type: 'number' }],
+        strict: true,
+      });
+    });
+
+    it('should compile RSQL with OR, AND and comparison operators', async () => {
+      await groupToolkit.findWithOptions({ filter: '(status==active,role=in=(admin,owner));age=ge=18;country!=US' });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [
+          { $or: [{ status: 'active' }, { role: { $in: ['admin', 'owner'] } }] },
+          { age: { $gte: 18 } },
+          { country: { $ne: 'US' } },
+        ],
+      });
+    });
+
+    it('should compile the JSON form with not', async () => {
+      await groupToolkit.countWithOptions({
+        filter: '{"or":[{"status":"active"},{"role":"admin"}],"not":{"country":"US"}}',
+      });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({
+        $and: [{ $or: [{ status: 'active' }, { role: 'admin' }] }, { $nor: [{ country: 'US' }] }],
+      });
+    });
+
+    it('should keep plain filters and search alongside the group', async () => {
+      const toolkit = new QueryToolkit(UserModel as any, { searchFields: ['name'], filterableFields: ['status', 'role'] });
+
+      await toolkit.findWithOptions({ q: 'john', status: 'active', filter: { or: [{ role: 'admin' }, { role: 'owner' }] } });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [
+          { $or: [{ name: { $regex: 'john', $options: 'i' } }] },
+          { status: 'active', $and: [{ $or: [{ role: 'admin' }, { role: 'owner' }] }] },
+        ],
+      });
+    });
+
+    it('should reject fields that are not filterable and malformed expressions', async () => {
+      const error = await groupToolkit.findWithOptions({ filter: 'status==active,password==x' }).catch((err) => err);
+      expect(error.issues).toEqual([{ parameter: 'filter', value: 'password', reason: 'Field is not filterable' }]);
+
+      await expect(groupToolkit.findWithOptions({ filter: '(status==active' })).rejects.toThrow(
+        'filter (Invalid filter: Expected ")" at position 15)'
+      );
+    });
+  });
+
+  describe('Field aliases', () => {
+    let aliasToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      aliasToolkit = new QueryToolkit(UserModel as any, {
+        searchFields: ['name', 'author.name'],
+        filterableFields: [{ field: 'createdAt', type: 'date' }, 'author.name'],
+        selectableFields: ['createdAt', 'author.name'],
+        populatableFields: ['author'],
+        fieldAliases: { created: 'createdAt', authorName: 'author.name', writer: 'author' },
+        renameResults: true,
+        strict: true,
+      });
+    });
+
+    it('should translate public names to schema paths in every option', async () => {
+      await aliasToolkit.findWithOptions({
+        q: 'authorName:ann',
+        'created[gte]': '2024-01-01',
+        sort: '-created',
+        select: 'created,authorName',
+        populate: 'writer',
+      });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [{ 'author.name': { $regex: 'ann', $options: 'i' } }, { createdAt: { $gte: new Date('2024-01-01') } }],
+      });
+      expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(mockSelect).toHaveBeenCalledWith('createdAt author.name');
+      expect(mockPopulate).toHaveBeenCalledWith('author');
+    });
+
+    it('should report issues under the public names', async () => {
+      await expect(aliasToolkit.countWithOptions({ 'created[gte]': 'soon' })).rejects.toThrow(
+        'Invalid query parameters: created[gte] (Invalid value)'
+      );
+    });
+
+    it('should rename result fields back to their public names', async () => {
+      const createdAt = new Date('2024-01-01');
+      mockExec.mockResolvedValue([{ createdAt, author: { name: 'Ann', age: 30 } }]);
+
+      const result = await aliasToolkit.findWithOptions({});
+
+      expect(result.docs).toEqual([{ created: createdAt, writer: { age: 30 }, authorName: 'Ann' }]);
+    });
+  });
+
+  describe('Scopes', () => {
+    let scopedToolkit: QueryToolkit<TestUser>;
+
+    beforeAll(() => {
+      scopedToolkit = new QueryToolkit(UserModel as any, {
+        filterableFields: ['status', 'tenantId'],
+        scopes: {
+          tenant: (context) => ({ tenantId: context.tenantId }),
+          notDeleted: { deletedAt: null },
+        },
+      });
+    });
+
+    it('should AND every scope into the query', async () => {
+      await scopedToolkit.findWithOptions({ status: 'active' }, { context: { tenantId: 't1' } });
+
+      expect(mockFind).toHaveBeenCalledWith({
+        $and: [{ tenantId: 't1' }, { deletedAt: null }, { status: 'active' }],
+      });
+    });
+
+    it('should not let request filters override a scope', async () => {
+      await scopedToolkit.countWithOptions({ tenantId: 't2' }, { context: { tenantId: 't1' } });
+
+      expect(mockCountDocuments).toHaveBeenCalledWith({
+        $and: [{ tenantId: 't1' }, { deletedAt: null }, { tenantId: 't2' }],
+      });
+    });
+
+    it('should skip only the scopes named in withoutScopes', async () => {
+      await scopedToolkit.findWithOptions({}, { context: { tenantId: 't1' }, withoutScopes: ['notDeleted'] });
+
+      expect(mockFind).toHaveBeenCalledWith({ tenantId: 't1' });
+    });
+
+    it('should throw for unknown scopes in withoutScopes', async () => {
+      await expect(scopedToolkit.findWithOptions({}, { withoutScopes: ['trashed'] })).rejects.toThrow(
+        'Scope "trashed" not found. Available scopes: tenant, notDeleted'
+      );
+    });
+  });
+
   describe('countWithOptions', () => {
     it('should return count of all documents', async () => {
       mockCountDocuments.mockResolvedValue(42);
@@ -290,11 +2073,15 @@ describe('QueryToolkit', () => {
       });
 
       expect(mockCountDocuments).toHaveBeenCalledWith({
-        $or: expect.arrayContaining([
-          { name: { $regex: 'john', $options: 'i' } },
-          { email: { $regex: 'john', $options: 'i' } },
-        ]),
-        status: 'active'
+        $and: [
+          {
+            $or: expect.arrayContaining([
+              { name: { $regex: 'john', $options: 'i' } },
+              { email: { $regex: 'john', $options: 'i' } },
+            ]),
+          },
+          { status: 'active' },
+        ],
       });
       expect(count).toBe(3);
     });
@@ -428,7 +2215,7 @@ describe('QueryToolkit', () => {
         await queryToolkit.findWithPreset('activeUsers');
 
         expect(mockFind).toHaveBeenCalledWith({ status: 'active' });
-        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1 });
+        expect(mockSort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
         expect(mockSkip().limit).toHaveBeenCalledWith(20);
       });
 
@@ -479,12 +2266,15 @@ describe('QueryToolkit', () => {
         await queryToolkit.findWithPreset('activeAdmins', { q: 'john' });
 
         expect(mockFind).toHaveBeenCalledWith({
-          $or: expect.arrayContaining([
-            { name: { $regex: 'john', $options: 'i' } },
-            { email: { $regex: 'john', $options: 'i' } },
-          ]),
-          status: 'active',
-          role: 'admin'
+          $and: [
+            {
+              $or: expect.arrayContaining([
+                { name: { $regex: 'john', $options: 'i' } },
+                { email: { $regex: 'john', $options: 'i' } },
+              ]),
+            },
+            { status: 'active', role: 'admin' },
+          ],
         });
       });
     });
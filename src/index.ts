@@ -1,4 +1,111 @@
-import { Document, Model } from 'mongoose';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { Document, Model, PopulateOptions, Query, Schema, Types, mongo } from 'mongoose';
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'exists';
+
+export type FieldType = 'string' | 'number' | 'date' | 'boolean' | 'objectId';
+
+export interface FilterableFieldConfig {
+  field: string;
+  type?: FieldType;                          // Overrides the type resolved from the schema
+  operators?: FilterOperator[];              // Allowed operators (default: all); plain values count as 'eq'
+  enum?: Array<string | number | boolean>;   // Allowed values
+}
+
+export type SearchMode = 'regex' | 'text' | 'prefix';
+
+export interface SearchFieldConfig {
+  field: string;
+  weight?: number;   // Relative weight of the field in the text index (default: 1)
+}
+
+export interface PopulatableFieldConfig {
+  field: string;                    // Dotted paths populate nested references, e.g. 'comments.author'
+  select?: string[];                // Fields of the referenced documents that may be selected (default: all)
+  match?: Record<string, unknown>;  // Condition the populated documents must match
+  sort?: string;                    // Sort of populated documents, e.g. '-createdAt'
+  limit?: number;                   // Maximum number of populated documents per parent document
+}
+
+// Request-specific data such as the current user, passed to access policies
+export interface QueryContext {
+  role?: string;
+  [key: string]: unknown;
+}
+
+export interface FieldAccessRules {
+  hidden?: string[];        // Never returned, filtered, sorted, searched, populated or faceted on
+  selectable?: string[];    // Narrow the toolkit's lists for this caller (default: no further restriction)
+  filterable?: string[];
+  sortable?: string[];
+  searchable?: string[];
+  populatable?: string[];
+}
+
+// A function of the request context, or rules per `context.role` (with an optional `default` entry)
+export type AccessPolicy =
+  | ((context: QueryContext) => FieldAccessRules | Promise<FieldAccessRules>)
+  | Record<string, FieldAccessRules>;
+
+// A filter ANDed into every query, e.g. { deletedAt: null } or a tenant filter built from the context
+export type ScopeFilter =
+  | Record<string, any>
+  | ((context: QueryContext) => Record<string, any> | Promise<Record<string, any>>);
+
+export interface CacheOptions {
+  ttl?: number;      // Seconds (default: 60)
+  tags?: string[];   // Extra tags to invalidate entries by; the model name is always included
+}
+
+export interface QueryExecutionOptions {
+  context?: QueryContext;
+  cache?: boolean | CacheOptions;  // false skips the cache; an object overrides the TTL or adds tags
+  lean?: boolean;  // Return plain objects instead of hydrated documents (default: the toolkit's `lean` option)
+  withoutScopes?: string[] | boolean;  // Server-side opt-out, e.g. ['notDeleted'] to include soft-deleted documents
+}
+
+export type QueryOperation = 'find' | 'aggregate' | 'cursor' | 'count' | 'facet' | 'build' | 'explain' | 'stream';
+
+// Shared by the hooks of one call, so hooks can also keep their own state on it (e.g. a start time)
+export interface QueryHookContext {
+  operation: QueryOperation;
+  options: QueryOptions;   // As passed by the caller, before beforeParse
+  context: QueryContext;
+  [key: string]: unknown;
+}
+
+// Returning a value replaces the options, filter or result; returning nothing keeps (possibly mutated) input
+export interface QueryHooks {
+  beforeParse?: (options: QueryOptions, ctx: QueryHookContext) => QueryOptions | void | Promise<QueryOptions | void>;
+  beforeQuery?: (
+    filter: Record<string, any>,
+    options: QueryOptions,
+    ctx: QueryHookContext
+  ) => Record<string, any> | void | Promise<Record<string, any> | void>;
+  afterQuery?: (result: any, ctx: QueryHookContext) => any;
+  afterDocument?: (doc: any, ctx: QueryHookContext) => any;  // Every document of streamWithOptions, which skips afterQuery
+  onError?: (error: unknown, ctx: QueryHookContext) => void | Promise<void>;
+}
+
+export type FacetType = 'terms' | 'range' | 'date';
+
+export interface FacetFieldConfig {
+  field: string;
+  type?: FacetType;                            // Counts per value, numeric ranges or a date histogram (default: 'terms')
+  boundaries?: number[];                       // Bucket boundaries for 'range' facets
+  interval?: 'day' | 'week' | 'month' | 'year'; // Histogram interval for 'date' facets (default: 'month')
+  limit?: number;                              // Most frequent values returned for 'terms' facets (default: 10)
+}
+
+export interface FacetBucket {
+  value: unknown;   // Field value, lower range boundary ('other' for out-of-range values) or start of the interval
+  count: number;
+}
+
+export type FacetCounts = Record<string, FacetBucket[]>;
+
+export type CountMode = 'exact' | 'estimated' | 'none';
 
 export interface QueryOptions {
   q?: string;
@@ -7,174 +114,2684 @@ export interface QueryOptions {
   sort?: string;
   select?: string;
   populate?: string;
+  count?: CountMode; // How totalDocs is computed by findWithOptions (default: 'exact')
+  facets?: string;   // Comma-separated facetable fields to count values for
+  after?: string;    // Cursor from a previous findWithCursor result
+  before?: string;   // Cursor from a previous findWithCursor result
+  filter?: string | Record<string, any>; // Grouped conditions as JSON or RSQL, e.g. 'status==active,role==admin'
   [key: string]: any;
 }
 
+// Raw query as received from a request: a query string, URLSearchParams or a parsed req.query object
+export type RawQuery = string | URLSearchParams | Record<string, unknown>;
+
 export interface PaginationResult<T> {
   docs: T[];
-  totalDocs: number;
+  totalDocs: number | null;    // null when counting was skipped (count: 'none')
   limit: number;
   page: number;
-  totalPages: number;
+  totalPages: number | null;   // null when counting was skipped (count: 'none')
+  countMode: CountMode;        // How totalDocs was computed; 'estimated' totals are approximate
   hasNextPage: boolean;
   hasPrevPage: boolean;
+  nextPage: number | null;
+  prevPage: number | null;
+  pagingCounter: number;       // Position of the first document on this page, starting at 1
+  offset: number;              // Number of documents skipped
+  facets?: FacetCounts;        // Present when the `facets` option was given
 }
 
-export class QueryToolkit<T extends Document> {
-  private searchFields: string[];
-  private filterableFields: string[];
-  private selectableFields: string[];
-  private populatableFields: string[] = [];
-  private presets: Map<string, QueryOptions> = new Map();
+export type StreamFormat = 'objects' | 'ndjson' | 'csv';
 
-  constructor(
-    private readonly model: Model<T>,
-    options: {
-      searchFields?: string[];
-      filterableFields?: string[];
-      selectableFields?: string[];
-      populatableFields?: string[];
-    } = {}
-  ) {
-    this.searchFields = options.searchFields || [];
-    this.filterableFields = options.filterableFields || [];
-    this.selectableFields = options.selectableFields || [];
-    this.populatableFields = options.populatableFields || [];
-  }
+export interface StreamOptions extends QueryExecutionOptions {
+  format?: StreamFormat;  // Documents, newline-delimited JSON or CSV text (default: 'objects')
+  batchSize?: number;     // Documents fetched per round trip (default: 1000)
+  columns?: string[];     // CSV columns (default: the selected fields, or the keys of the first document)
+}
 
-  private buildSearchQuery(q: string): object {
-    if (!q || !this.searchFields.length) return {};
+// The MongoDB query findWithOptions runs for a set of options
+export interface CompiledQuery {
+  filter: Record<string, any>;
+  sort: Record<string, 1 | -1 | { $meta: 'textScore' }>;
+  projection: Record<string, 0 | 1 | { $meta: 'textScore' }> | null;
+  populate: Array<string | PopulateOptions>;
+  skip: number;
+  limit: number;
+}
 
-    return {
-      $or: this.searchFields.map((field) => ({
-        [field]: { $regex: q, $options: 'i' },
-      })),
-    };
+export interface QueryExplanation {
+  query: CompiledQuery;
+  index: string | null;       // Index used by the winning plan
+  collectionScan: boolean;    // The winning plan scans the whole collection
+  docsExamined: number;
+  keysExamined: number;
+  docsReturned: number;
+  executionTimeMillis: number;
+  explain: any;               // Raw explain('executionStats') output
+}
+
+export interface IndexIssue {
+  field: string;
+  usage: 'filter' | 'sort' | 'search';
+  message: string;
+}
+
+export interface IndexSuggestion {
+  preset: string;
+  index: Record<string, 1 | -1>;  // Equality fields, then sort fields, then range fields (ESR)
+}
+
+export interface IndexReport {
+  indexes: Array<Record<string, any>>;  // Key specs from the schema and, when connected, the collection
+  issues: IndexIssue[];
+  suggestions: IndexSuggestion[];
+}
+
+export interface PaginationLinks {
+  self: string;
+  first: string;
+  prev: string | null;
+  next: string | null;
+  last: string | null;         // null when the total is unknown (count: 'none')
+  header: string;              // RFC 8288 Link header value
+}
+
+export interface CursorPaginationResult<T> {
+  docs: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists'];
+
+// Matches bracket operator keys such as `price[gte]`
+const OPERATOR_KEY_PATTERN = /^(.+)\[([^\]]*)\]$/;
+
+// Plain or dotted schema paths; rejects `$`-prefixed and other special names
+const FIELD_NAME_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+
+// Options with a meaning of their own; everything else is treated as a filter
+const RESERVED_OPTIONS = ['q', 'page', 'limit', 'sort', 'select', 'populate', 'count', 'facets', 'after', 'before', 'filter'];
+
+const COUNT_MODES: CountMode[] = ['exact', 'estimated', 'none'];
+
+// Options that only apply to a single page of results
+const PAGE_OPTIONS = ['page', 'limit', 'count', 'facets'];
+
+const STREAM_FORMATS: StreamFormat[] = ['objects', 'ndjson', 'csv'];
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+// Options made of comma-separated field lists; repeated keys are joined with commas
+const LIST_OPTIONS = ['sort', 'select', 'populate', 'facets'];
+
+// Matches one populate entry: a path with an optional field list, e.g. `author(name,email)`
+const POPULATE_ENTRY_PATTERN = /^([^()]+?)\s*(?:\(([^()]*)\))?$/;
+
+// Sort key that orders text search results by score
+const RELEVANCE_SORT = 'relevance';
+
+const TEXT_SCORE = { $meta: 'textScore' } as const;
+
+type SortValue = 1 | -1 | typeof TEXT_SCORE;
+
+// Matches one search term: optional `-`, optional `field:` scope, then a "quoted phrase" or a bare word
+const SEARCH_TERM_PATTERN = /(-?)(?:([A-Za-z_][\w.]*):)?(?:"([^"]*)"|(\S+))/g;
+
+interface SearchTerm {
+  value: string;
+  field?: string;
+  negated: boolean;
+}
+
+function parseSearchTerms(q: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+
+  for (const match of q.matchAll(SEARCH_TERM_PATTERN)) {
+    const [, negation, field, phrase, word] = match;
+    const value = phrase ?? word;
+
+    if (value) {
+      terms.push({ value, field, negated: negation === '-' });
+    }
   }
 
-  private buildFilterQuery(options: QueryOptions): object {
-    const filterQuery: any = {};
+  return terms;
+}
+
+// Parsed `filter` option; conditions are validated like regular filter parameters when compiled
+type FilterNode =
+  | { and: FilterNode[] }
+  | { or: FilterNode[] }
+  | { not: FilterNode }
+  | { field: string; operator: string; value: unknown };
+
+const MAX_FILTER_DEPTH = 8;
+
+const RSQL_OPERATORS: Record<string, FilterOperator> = {
+  '==': 'eq',
+  '!=': 'ne',
+  '=gt=': 'gt',
+  '>': 'gt',
+  '=ge=': 'gte',
+  '>=': 'gte',
+  '=lt=': 'lt',
+  '<': 'lt',
+  '=le=': 'lte',
+  '<=': 'lte',
+  '=in=': 'in',
+  '=out=': 'nin',
+  '=exists=': 'exists',
+};
+
+// Matches `field` followed by an RSQL comparison operator, e.g. `price=ge=`
+const RSQL_COMPARISON_PATTERN = /\s*([A-Za-z_][\w.-]*)\s*(==|!=|=[a-z]*=|>=|<=|>|<)\s*/y;
+const RSQL_VALUE_PATTERN = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^;,()"'\s]+))\s*/y;
+
+// Parses RSQL/FIQL, e.g. `(status==active,role==admin);country!=US` (`;` is AND, `,` is OR)
+function parseRsql(input: string): FilterNode {
+  let position = 0;
+
+  const peek = () => input[position];
+  const expect = (token: string) => {
+    if (input[position] !== token) throw new Error(`Expected "${token}" at position ${position}`);
+    position++;
+  };
+
+  const readValue = (): string => {
+    RSQL_VALUE_PATTERN.lastIndex = position;
+    const match = RSQL_VALUE_PATTERN.exec(input);
+    if (!match) throw new Error(`Expected a value at position ${position}`);
+
+    position = RSQL_VALUE_PATTERN.lastIndex;
+    return (match[1] ?? match[2])?.replace(/\\(.)/g, '$1') ?? match[3];
+  };
+
+  const parseComparison = (): FilterNode => {
+    RSQL_COMPARISON_PATTERN.lastIndex = position;
+    const match = RSQL_COMPARISON_PATTERN.exec(input);
+    if (!match) throw new Error(`Expected a comparison at position ${position}`);
+
+    position = RSQL_COMPARISON_PATTERN.lastIndex;
+    const operator = RSQL_OPERATORS[match[2]] ?? match[2].slice(1, -1);
+
+    if (peek() !== '(') {
+      return { field: match[1], operator, value: readValue() };
+    }
+
+    expect('(');
+    const values = [readValue()];
+    while (peek() === ',') {
+      position++;
+      values.push(readValue());
+    }
+    expect(')');
+
+    return { field: match[1], operator, value: values };
+  };
 
-    for (const key of this.filterableFields) {
-      if (options[key] !== undefined) {
-        filterQuery[key] = options[key];
+  const parseGroup = (depth: number): FilterNode => {
+    const parseTerm = (): FilterNode => {
+      while (peek() === ' ') position++;
+      if (peek() !== '(') return parseComparison();
+
+      if (depth >= MAX_FILTER_DEPTH) throw new Error(`Filter is nested more than ${MAX_FILTER_DEPTH} levels deep`);
+      position++;
+      const group = parseGroup(depth + 1);
+      while (peek() === ' ') position++;
+      expect(')');
+      return group;
+    };
+
+    const parseAnd = (): FilterNode => {
+      const terms = [parseTerm()];
+      while (peek() === ';') {
+        position++;
+        terms.push(parseTerm());
       }
+      return terms.length === 1 ? terms[0] : { and: terms };
+    };
+
+    const alternatives = [parseAnd()];
+    while (peek() === ',') {
+      position++;
+      alternatives.push(parseAnd());
     }
+    return alternatives.length === 1 ? alternatives[0] : { or: alternatives };
+  };
 
-    return filterQuery;
+  const node = parseGroup(0);
+  if (position < input.length) throw new Error(`Unexpected "${input[position]}" at position ${position}`);
+
+  return node;
+}
+
+// Parses the JSON form, e.g. { or: [{ status: 'active' }, { role: 'admin' }], not: { country: 'US' } }.
+// Keys of one object are ANDed, like regular filter parameters.
+function parseFilterObject(filter: unknown, depth = 0): FilterNode {
+  if (!isPlainObject(filter)) throw new Error('Filter groups must be objects');
+  if (depth > MAX_FILTER_DEPTH) throw new Error(`Filter is nested more than ${MAX_FILTER_DEPTH} levels deep`);
+
+  const nodes: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === 'and' || key === 'or') {
+      if (!Array.isArray(value)) throw new Error(`"${key}" must be an array`);
+      const children = value.map((child) => parseFilterObject(child, depth + 1));
+      nodes.push(key === 'and' ? { and: children } : { or: children });
+    } else if (key === 'not') {
+      nodes.push({ not: parseFilterObject(value, depth + 1) });
+    } else if (isPlainObject(value)) {
+      // Operator form, e.g. { price: { gte: 10 } }
+      nodes.push(...Object.entries(value).map(([operator, operatorValue]) => ({ field: key, operator, value: operatorValue })));
+    } else {
+      nodes.push({ field: key, operator: 'eq', value });
+    }
   }
 
-  private parseSortString(sort?: string): Record<string, 1 | -1> {
-    const sortQuery: Record<string, 1 | -1> = {};
-    
-    if (!sort) return sortQuery;
+  return nodes.length === 1 ? nodes[0] : { and: nodes };
+}
 
-    sort.split(',').forEach((field) => {
-      const order = field.startsWith('-') ? -1 : 1;
-      const fieldName = field.startsWith('-') ? field.substring(1) : field;
-      sortQuery[fieldName] = order;
-    });
+// ANDs predicates together, skipping empty ones and flattening nested $and
+function andClauses(clauses: Array<Record<string, any>>): Record<string, any> {
+  const parts = clauses
+    .filter((clause) => Object.keys(clause).length > 0)
+    .flatMap((clause) => (Object.keys(clause).length === 1 && Array.isArray(clause.$and) ? clause.$and : [clause]));
 
-    return sortQuery;
+  if (parts.length === 0) return {};
+  if (parts.length === 1) return parts[0];
+
+  return { $and: parts };
+}
+
+// Fields a predicate refers to, including those inside $and/$or/$nor
+function collectPredicateFields(predicate: Record<string, any>): string[] {
+  return Object.entries(predicate).flatMap(([key, value]) =>
+    ['$and', '$or', '$nor'].includes(key) && Array.isArray(value)
+      ? value.flatMap((child: Record<string, any>) => collectPredicateFields(child))
+      : [key]
+  );
+}
+
+interface CompiledFind {
+  query: Record<string, any>;
+  sortQuery: Record<string, SortValue>;
+  selectQuery: string | null;
+  populateFields: Array<string | PopulateOptions>;
+  facetFields: FacetFieldConfig[];
+  countMode: CountMode;
+  pagination: { page: number; limit: number; skip: number };
+  textSearch: boolean;  // $text may be nested in $and once filters or scopes are added
+}
+
+// Operators that select a range of index keys rather than a single value
+const RANGE_OPERATORS = ['ne', 'gt', 'gte', 'lt', 'lte', 'nin', 'exists'];
+
+const SCHEMA_FIELD_TYPES: Record<string, FieldType> = {
+  String: 'string',
+  Number: 'number',
+  Date: 'date',
+  Boolean: 'boolean',
+  ObjectId: 'objectId',
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    value instanceof Date ||
+    value instanceof Types.ObjectId
+  );
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getPathValue(doc: any, path: string): unknown {
+  if (typeof doc?.get === 'function') return doc.get(path);
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+// Renames a path, or its longest renamed parent path, e.g. 'writer.name' with { writer: 'author' }
+function renamePath(path: string, names: Map<string, string>): string {
+  const segments = path.split('.');
+
+  for (let length = segments.length; length > 0; length--) {
+    const renamed = names.get(segments.slice(0, length).join('.'));
+    if (renamed !== undefined) return [renamed, ...segments.slice(length)].join('.');
   }
 
-  private buildSelectQuery(select?: string): string | null {
-    if (!select) return null;
-    
-    // If selectableFields is empty, allow all fields
-    if (this.selectableFields.length === 0) {
-      return select.replace(/,/g, ' ');
+  return path;
+}
+
+// Copies only the objects along the path, so the original document is left untouched
+function omitPath(obj: Record<string, any>, path: string): Record<string, any> {
+  const [head, ...rest] = path.split('.');
+  if (!(head in obj)) return obj;
+
+  const copy = { ...obj };
+  if (rest.length === 0) {
+    delete copy[head];
+  } else if (isPlainObject(obj[head])) {
+    copy[head] = omitPath(obj[head], rest.join('.'));
+  }
+
+  return copy;
+}
+
+function withPath(obj: Record<string, any>, path: string, value: unknown): Record<string, any> {
+  const [head, ...rest] = path.split('.');
+  if (rest.length === 0) return { ...obj, [head]: value };
+
+  return { ...obj, [head]: withPath(isPlainObject(obj[head]) ? obj[head] : {}, rest.join('.'), value) };
+}
+
+// Cursors are EJSON so Dates and ObjectIds survive the round trip
+function encodeCursor(values: unknown[]): string {
+  return Buffer.from(mongo.BSON.EJSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): unknown[] | undefined {
+  try {
+    const values = mongo.BSON.EJSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // Cursors are client input: operator objects or EJSON regexes must not reach the filter
+    return Array.isArray(values) && values.every((value) => value === null || isScalar(value)) ? values : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Cursors are read from the returned documents, so the projection has to keep every sort key.
+// Returns the projection and the paths that were added to it.
+function withCursorFields(selectQuery: string | null, sortFields: string[]): { select: string | null; added: string[] } {
+  let fields = (selectQuery || '').split(' ').filter(Boolean);
+  const added: string[] = [];
+
+  const covers = (entry: string, field: string) => field === entry || field.startsWith(`${entry}.`);
+
+  for (const field of sortFields) {
+    const exclusion = fields.find((entry) => entry.startsWith('-') && covers(entry.substring(1), field));
+    if (exclusion) {
+      fields = fields.filter((entry) => entry !== exclusion);
+      added.push(exclusion.substring(1));
     }
-    
-    // Filter fields based on selectableFields
-    const fields = select.split(',');
-    const validFields = fields.filter(field => {
-      // Handle exclusion fields (fields with minus prefix)
-      const fieldName = field.startsWith('-') ? field.substring(1) : field;
-      return this.selectableFields.includes(fieldName);
-    });
-    
-    return validFields.join(' ');
   }
 
-  private buildPopulateFields(populate?: string): string[] {
-    if (!populate) return [];
+  const inclusions = fields.filter((entry) => !entry.startsWith('-'));
+  if (inclusions.length > 0) {
+    for (const field of sortFields) {
+      // _id is part of every inclusion projection unless it is excluded
+      const included = field === '_id' || inclusions.some((entry) => covers(entry, field));
+      if (!included) {
+        fields.push(field);
+        added.push(field);
+      }
+    }
+  }
 
-    // Convert comma-separated fields to array
-    const fields = populate.split(',').map(field => field.trim());
-    
-    // If populatableFields is empty, allow all fields
-    if (this.populatableFields.length === 0) {
-      return fields;
+  return { select: fields.length > 0 ? fields.join(' ') : null, added };
+}
+
+// Removes paths that were only projected to build cursors
+function stripPaths(doc: any, paths: string[]): any {
+  if (paths.length === 0) return doc;
+
+  if (typeof doc?.$set === 'function') {
+    for (const path of paths) {
+      doc.$set(path, undefined);
+      doc.unmarkModified(path);
     }
-    
-    // Filter fields based on populatableFields
-    return fields.filter(field => this.populatableFields.includes(field));
+    return doc;
   }
 
-  async findWithOptions(options: QueryOptions = {}): Promise<PaginationResult<T>> {
-    const { q, page = 1, limit = 10, sort, select, populate, ...filterOptions } = options;
-    const skip = (page - 1) * limit;
+  return paths.reduce((stripped, path) => omitPath(stripped, path), doc);
+}
 
-    const query = {
-      ...this.buildSearchQuery(q || ''),
-      ...this.buildFilterQuery(filterOptions),
-    };
+// Splits on commas that are not inside parentheses
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
 
-    const sortQuery = this.parseSortString(sort);
-    const selectQuery = this.buildSelectQuery(select);
-    const populateFields = this.buildPopulateFields(populate);
+  for (const char of value) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
 
-    let findQuery = this.model.find(query);
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
 
-    if (sortQuery && Object.keys(sortQuery).length > 0) {
-      findQuery = findQuery.sort(sortQuery);
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function isHiddenPath(field: string, access: FieldAccessRules): boolean {
+  return (access.hidden || []).some((hidden) => field === hidden || field.startsWith(`${hidden}.`));
+}
+
+function isPermitted(field: string, allowed: string[] | undefined, access: FieldAccessRules): boolean {
+  return !isHiddenPath(field, access) && (!allowed || allowed.includes(field));
+}
+
+// Flattens a query plan into its stages, e.g. FETCH -> IXSCAN
+function collectPlanStages(plan: unknown): Array<{ stage: string; indexName?: string }> {
+  if (Array.isArray(plan)) return plan.flatMap(collectPlanStages);
+  if (!isPlainObject(plan)) return [];
+
+  const stages = typeof plan.stage === 'string' ? [{ stage: plan.stage, indexName: plan.indexName }] : [];
+  return [...stages, ...Object.values(plan).flatMap(collectPlanStages)];
+}
+
+// Sorts object keys so equivalent filters share a cache key
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (!isPlainObject(value)) return value;
+
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, canonicalize(value[key])]));
+}
+
+function toQueryValue(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return undefined;
+}
+
+// Strings spreadsheets would evaluate as formulas (CSV injection)
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+// Quotes values containing delimiters, quotes or line breaks (RFC 4180)
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' && !(value instanceof Types.ObjectId) ? JSON.stringify(value) : String(value);
+
+  // A leading quote makes spreadsheets show the value as text instead of running it
+  if (typeof value === 'string' && CSV_FORMULA_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface QueryValidationIssue {
+  parameter: string;   // Offending parameter, e.g. 'sort', 'price[gte]' or 'role'
+  value: unknown;
+  reason: string;
+}
+
+export class QueryValidationError extends Error {
+  readonly issues: QueryValidationIssue[];
+
+  constructor(issues: QueryValidationIssue[]) {
+    super(`Invalid query parameters: ${issues.map((issue) => `${issue.parameter} (${issue.reason})`).join(', ')}`);
+    this.name = 'QueryValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface CacheStore {
+  get(key: string): Promise<unknown>;  // undefined when missing or expired
+  set(key: string, value: unknown, ttl?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// In-process store that evicts the least recently used entry once `maxEntries` is reached
+// Values are stored as EJSON like in RedisCacheStore, so callers never share (and mutate) a cached object
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(key: string): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
     }
 
-    if (selectQuery) {
-      findQuery = findQuery.select(selectQuery);
+    // Maps keep insertion order, so re-inserting marks the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return mongo.BSON.EJSON.parse(entry.value);
+  }
+
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value: mongo.BSON.EJSON.stringify(value), expiresAt: ttl ? Date.now() + ttl * 1000 : null });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
     }
+  }
 
-    // Apply populate fields
-    populateFields.forEach(field => {
-      // Using type assertion to handle the TypeScript error
-      findQuery = findQuery.populate(field) as any;
-    });
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
 
-    const [docs, totalDocs] = await Promise.all([
-      findQuery
-        .skip(skip)
-        .limit(limit)
-        .exec(),
-      this.model.countDocuments(query),
-    ]);
+// The subset of an ioredis-style client used by RedisCacheStore
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: any[]): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
 
-    const totalPages = Math.ceil(totalDocs / limit);
+// Values are stored as EJSON so ObjectIds and Dates survive the round trip
+export class RedisCacheStore implements CacheStore {
+  constructor(private readonly client: RedisLikeClient, private readonly prefix = 'mqt:') {}
 
-    return {
-      docs,
-      totalDocs,
-      limit,
-      page,
-      totalPages,
-      hasNextPage: page < totalPages,
-      hasPrevPage: page > 1,
-    };
+  async get(key: string): Promise<unknown> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw === null ? undefined : mongo.BSON.EJSON.parse(raw);
   }
 
-  async countWithOptions(options: QueryOptions = {}): Promise<number> {
-    const { q, ...filterOptions } = options;
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    const raw = mongo.BSON.EJSON.stringify(value);
+    await (ttl ? this.client.set(this.prefix + key, raw, 'EX', ttl) : this.client.set(this.prefix + key, raw));
+  }
 
-    const query = {
-      ...this.buildSearchQuery(q || ''),
-      ...this.buildFilterQuery(filterOptions),
-    };
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+// Tag versions are part of every cache key, so a new version orphans the tagged entries without scanning the store
+export async function invalidateCacheTags(store: CacheStore, tags: string[]): Promise<void> {
+  const version = new Types.ObjectId().toHexString();
+  await Promise.all(tags.map((tag) => store.set(`tag:${tag}`, version)));
+}
+
+// Schema plugin invalidating cached queries whenever documents of the model change.
+// Like all middleware it has to be registered before the model is compiled.
+export function cacheInvalidationPlugin(schema: Schema, options: { store: CacheStore; tags?: string[] }): void {
+  const invalidate = function (this: any) {
+    // `this` is the model (insertMany), a query or a document
+    const modelName = this.modelName ?? this.model?.modelName ?? this.constructor?.modelName;
+    return invalidateCacheTags(options.store, options.tags ?? [modelName]);
+  };
+
+  schema.post('save', invalidate);
+  schema.post('insertMany', invalidate);
+  schema.post(['updateOne', 'deleteOne'], { document: true, query: false }, invalidate);
+  schema.post(
+    ['updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndUpdate', 'findOneAndReplace', 'findOneAndDelete'],
+    invalidate
+  );
+}
 
-    return this.model.countDocuments(query);
+// One JSON document per line
+export async function* serializeNdjson(docs: AsyncIterable<any> | Iterable<any>): AsyncGenerator<string> {
+  for await (const doc of docs) {
+    yield `${JSON.stringify(doc)}\n`;
   }
+}
 
-  definePreset(name: string, options: QueryOptions): void {
-    this.presets.set(name, { ...options });
+// A header row, then one row per document. Columns are dotted paths; without them the
+// keys of the first document are used and fields that only later documents have are dropped.
+export async function* serializeCsv(
+  docs: AsyncIterable<any> | Iterable<any>,
+  columns?: string[]
+): AsyncGenerator<string> {
+  let header = columns;
+  if (header) yield `${header.map(toCsvValue).join(',')}\n`;
+
+  for await (const doc of docs) {
+    const row = typeof doc?.toObject === 'function' ? doc.toObject() : doc;
+
+    if (!header) {
+      header = Object.keys(row);
+      yield `${header.map(toCsvValue).join(',')}\n`;
+    }
+
+    yield `${header.map((column) => toCsvValue(getPathValue(row, column))).join(',')}\n`;
+  }
+}
+
+// Plain-object shape of a document, as returned by lean queries
+export type LeanDocument<T> = Omit<T, Exclude<keyof Document, '_id' | '__v'>>;
+
+// TOutput is the shape of returned documents, e.g. the result type of `transform`
+export class QueryToolkit<T extends Document, TOutput = T> {
+  private searchFields: SearchFieldConfig[];
+  private searchMode: SearchMode;
+  private filterableFields: FilterableFieldConfig[];
+  private selectableFields: string[];
+  private sortableFields: string[];
+  private defaultSort?: string;
+  private sortAliases: Map<string, string>;
+  private fieldAliases: Map<string, string>;
+  private publicNames: Map<string, string>;
+  private renameResults: boolean;
+  private lean: boolean;
+  private transform?: (doc: any) => TOutput;
+  private populatableFields: PopulatableFieldConfig[] = [];
+  private maxPopulateDepth: number;
+  private strict: boolean;
+  private defaultLimit: number;
+  private maxLimit?: number;
+  private maxSkip?: number;
+  private computedFields: Record<string, unknown>;
+  private maxReferenceIds: number;
+  private accessPolicy?: AccessPolicy;
+  private facetableFields: FacetFieldConfig[];
+  private presets: Map<string, QueryOptions> = new Map();
+  private hooks: QueryHooks[] = [];
+  private cache?: CacheOptions & { store: CacheStore };
+  private presetCache: Map<string, CacheOptions> = new Map();
+  private scopes: Map<string, ScopeFilter> = new Map();
+
+  constructor(
+    private readonly model: Model<T>,
+    options: {
+      searchFields?: Array<string | SearchFieldConfig>;
+      searchMode?: SearchMode;
+      filterableFields?: Array<string | FilterableFieldConfig>;
+      selectableFields?: string[];
+      sortableFields?: string[];
+      defaultSort?: string;    // Sort used when none is given, e.g. '-createdAt'
+      sortAliases?: Record<string, string>;  // Named sorts, e.g. { newest: '-createdAt' }
+      populatableFields?: Array<string | PopulatableFieldConfig>;
+      fieldAliases?: Record<string, string>;  // Public names for schema paths, e.g. { created: 'createdAt' }
+      renameResults?: boolean;  // Rename aliased paths in returned documents back to their public names
+      lean?: boolean;          // Return plain objects instead of hydrated documents (default: false)
+      transform?: (doc: any) => TOutput;  // Maps each returned document, e.g. to a DTO
+      maxPopulateDepth?: number;   // Deepest nested populate path, e.g. 2 allows 'comments.author' (default: 3)
+      strict?: boolean;
+      defaultLimit?: number;   // Limit used when none is given (default: 10, or maxLimit if lower)
+      maxLimit?: number;       // Largest accepted limit (default: unbounded)
+      maxSkip?: number;        // Largest number of documents skipped by page/limit (default: unbounded)
+      computedFields?: Record<string, unknown>;  // Aggregation expressions added by findWithAggregate
+      maxReferenceIds?: number;  // Most referenced documents a filter like 'author.role' may match (default: 1000)
+      accessPolicy?: AccessPolicy;  // Per-request field access rules
+      scopes?: Record<string, ScopeFilter>;  // Named filters applied to every query
+      hooks?: QueryHooks;      // Lifecycle hooks, more can be added with use()
+      // Caches results of every call unless it passes cache: false. Requires lean or transform,
+      // since hydrated documents can't be serialized without losing their schema's toJSON rules
+      cache?: CacheOptions & { store: CacheStore };
+      facetableFields?: Array<string | FacetFieldConfig>;
+    } = {}
+  ) {
+    this.searchFields = (options.searchFields || []).map((field) =>
+      typeof field === 'string' ? { field } : { ...field }
+    );
+    this.searchMode = options.searchMode || 'regex';
+    this.filterableFields = (options.filterableFields || []).map((field) =>
+      typeof field === 'string' ? { field } : { ...field }
+    );
+    this.selectableFields = options.selectableFields || [];
+    this.sortableFields = options.sortableFields || [];
+    this.defaultSort = options.defaultSort;
+    this.sortAliases = new Map(Object.entries(options.sortAliases || {}));
+    this.fieldAliases = new Map(Object.entries(options.fieldAliases || {}));
+    this.publicNames = new Map(Array.from(this.fieldAliases, ([name, path]) => [path, name]));
+    this.renameResults = options.renameResults || false;
+    this.lean = options.lean || false;
+    this.transform = options.transform;
+    this.populatableFields = (options.populatableFields || []).map((field) =>
+      typeof field === 'string' ? { field } : { ...field }
+    );
+    this.maxPopulateDepth = options.maxPopulateDepth || 3;
+    this.strict = options.strict || false;
+    this.maxLimit = options.maxLimit;
+    this.defaultLimit = options.defaultLimit || Math.min(10, this.maxLimit ?? 10);
+    this.maxSkip = options.maxSkip;
+    this.computedFields = options.computedFields || {};
+    this.maxReferenceIds = options.maxReferenceIds || 1000;
+    this.accessPolicy = options.accessPolicy;
+    this.scopes = new Map(Object.entries(options.scopes || {}));
+    if (options.hooks) this.hooks.push(options.hooks);
+    this.cache = options.cache;
+    this.facetableFields = (options.facetableFields || []).map((field) =>
+      typeof field === 'string' ? { field } : { ...field }
+    );
+
+    if (this.cache && !this.lean && !this.transform) {
+      throw new Error('The cache option requires lean: true or a transform, hydrated documents cannot be cached');
+    }
+
+    // The default limit isn't validated per request, so it has to respect maxLimit up front
+    if (this.maxLimit !== undefined && this.defaultLimit > this.maxLimit) {
+      throw new Error(`defaultLimit (${this.defaultLimit}) cannot exceed maxLimit (${this.maxLimit})`);
+    }
+
+    for (const facet of this.facetableFields) {
+      if (facet.type === 'range' && !facet.boundaries?.length) {
+        throw new Error(`Facet "${facet.field}" of type "range" requires boundaries`);
+      }
+    }
+  }
+
+  private async execute<R>(
+    operation: QueryOperation,
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    run: (options: QueryOptions, hook: QueryHookContext) => Promise<R>
+  ): Promise<R> {
+    const hook: QueryHookContext = { operation, options, context: execution.context || {} };
+    // Dry runs have no query result for afterQuery to see, and streams pass theirs to afterDocument
+    const skipAfterQuery = operation === 'build' || operation === 'explain' || operation === 'stream';
+
+    try {
+      let parsed = options;
+      for (const { beforeParse } of this.hooks) {
+        if (beforeParse) parsed = (await beforeParse(parsed, hook)) ?? parsed;
+      }
+
+      let result = await run(parsed, hook);
+      for (const { afterQuery } of skipAfterQuery ? [] : this.hooks) {
+        if (afterQuery) result = (await afterQuery(result, hook)) ?? result;
+      }
+
+      return result;
+    } catch (error) {
+      for (const { onError } of this.hooks) {
+        if (onError) await onError(error, hook);
+      }
+      throw error;
+    }
+  }
+
+  // Keys on the compiled query, so option spellings that compile to the same query share an entry
+  private async withCache<R>(
+    operation: QueryOperation,
+    execution: QueryExecutionOptions,
+    query: { filter: Record<string, any>; [part: string]: unknown },
+    load: () => Promise<R>
+  ): Promise<R> {
+    // A call asking for hydrated documents can't be cached
+    const hydrated = query.lean === false && !this.transform;
+    if (!this.cache || execution.cache === false || hydrated) return load();
+
+    const { store } = this.cache;
+    const overrides = typeof execution.cache === 'object' ? execution.cache : {};
+    const ttl = overrides.ttl ?? this.cache.ttl ?? 60;
+    const tags = [this.model.modelName, ...(this.cache.tags || []), ...(overrides.tags || [])];
+
+    const versions = await Promise.all(tags.map((tag) => store.get(`tag:${tag}`)));
+    const key = mongo.BSON.EJSON.stringify({ operation, ...query, filter: canonicalize(query.filter), versions });
+    const cacheKey = `query:${this.model.modelName}:${createHash('sha1').update(key).digest('hex')}`;
+
+    const cached = await store.get(cacheKey);
+    if (cached !== undefined) return cached as R;
+
+    const result = await load();
+    await store.set(cacheKey, result, ttl);
+    return result;
+  }
+
+  private async runBeforeQuery(
+    filter: Record<string, any>,
+    options: QueryOptions,
+    hook: QueryHookContext
+  ): Promise<Record<string, any>> {
+    for (const { beforeQuery } of this.hooks) {
+      if (beforeQuery) filter = (await beforeQuery(filter, options, hook)) ?? filter;
+    }
+
+    return filter;
+  }
+
+  private async resolveAccess(context: QueryContext = {}): Promise<FieldAccessRules> {
+    if (!this.accessPolicy) return {};
+
+    if (typeof this.accessPolicy === 'function') {
+      return (await this.accessPolicy(context)) || {};
+    }
+
+    const rules = (context.role !== undefined ? this.accessPolicy[context.role] : undefined) || this.accessPolicy.default;
+
+    // Unknown roles must not silently get full access
+    if (!rules) {
+      throw new Error(`No access rules for role "${context.role}" and no default rules defined`);
+    }
+
+    return rules;
+  }
+
+  // Scopes are ANDed rather than merged so request filters on the same fields can't replace them
+  private async applyScopes(
+    query: Record<string, any>,
+    { context = {}, withoutScopes }: QueryExecutionOptions
+  ): Promise<Record<string, any>> {
+    if (withoutScopes === true) return query;
+
+    const skipped = Array.isArray(withoutScopes) ? withoutScopes : [];
+    for (const name of skipped) {
+      if (!this.scopes.has(name)) {
+        throw new Error(`Scope "${name}" not found. Available scopes: ${this.listScopes().join(', ') || 'none'}`);
+      }
+    }
+
+    const filters: Record<string, any>[] = [];
+    for (const [name, scope] of this.scopes) {
+      if (skipped.includes(name)) continue;
+
+      const filter = typeof scope === 'function' ? await scope(context) : scope;
+      if (filter && Object.keys(filter).length > 0) filters.push(filter);
+    }
+
+    return andClauses([...filters, query]);
+  }
+
+  private buildSearchQuery(q: unknown, issues: QueryValidationIssue[], access: FieldAccessRules = {}): object {
+    if (q === undefined || q === '') return {};
+
+    if (typeof q !== 'string') {
+      issues.push({ parameter: 'q', value: q, reason: 'Search term must be a string' });
+      return {};
+    }
+
+    // Text search runs against the collection's text index rather than searchFields.
+    // $search natively understands "phrases" and -negation, so the term is passed as is.
+    // $text can't be narrowed to some fields, so a caller who may not search every indexed field
+    // could probe hidden values through matches and counts. Without searchFields the indexed
+    // fields are unknown, and any restriction rules the search out.
+    if (this.searchMode === 'text') {
+      const restricted = this.searchFields.length > 0
+        ? this.searchFields.some(({ field }) => !isPermitted(field, access.searchable, access))
+        : access.searchable !== undefined || (access.hidden?.length ?? 0) > 0;
+
+      if (restricted) {
+        issues.push({ parameter: 'q', value: q, reason: 'Text search covers fields that are not searchable' });
+        return {};
+      }
+
+      return { $text: { $search: q } };
+    }
+
+    const searchable = this.searchFields
+      .map(({ field }) => field)
+      .filter((field) => isPermitted(field, access.searchable, access));
+
+    if (!searchable.length) return {};
+
+    // Terms are ANDed together
+    const clauses = parseSearchTerms(q).map((term) => this.buildSearchTermClause(term, searchable));
+
+    if (clauses.length === 0) return {};
+    if (clauses.length === 1) return clauses[0];
+
+    return { $and: clauses };
+  }
+
+  private buildSearchTermClause(term: SearchTerm, searchable: string[]): object {
+    // A scope is honoured only for searchable fields; otherwise `name:value` is searched literally
+    const path = term.field !== undefined ? renamePath(term.field, this.fieldAliases) : undefined;
+    const scoped = path !== undefined && searchable.includes(path);
+    const fields = scoped ? [path] : searchable;
+    const value = term.field !== undefined && !scoped ? `${term.field}:${term.value}` : term.value;
+
+    // Escape the term so user input can't inject regex syntax (e.g. ReDoS patterns)
+    const pattern = escapeRegex(value);
+
+    // Anchored, case-sensitive prefixes can use index bounds; case-insensitive regexes can't
+    const condition = this.searchMode === 'prefix'
+      ? { $regex: `^${pattern}` }
+      : { $regex: pattern, $options: 'i' };
+
+    // An excluded term must not match in any of the fields
+    if (term.negated) {
+      const exclusions = fields.map((field) => ({ [field]: { $not: condition } }));
+      return exclusions.length === 1 ? exclusions[0] : { $and: exclusions };
+    }
+
+    if (scoped) {
+      return { [fields[0]]: condition };
+    }
+
+    return {
+      $or: fields.map((field) => ({
+        [field]: condition,
+      })),
+    };
+  }
+
+  getTextIndexDefinition(): [Record<string, 'text'>, { weights: Record<string, number> }] {
+    const fields: Record<string, 'text'> = {};
+    const weights: Record<string, number> = {};
+
+    for (const { field, weight = 1 } of this.searchFields) {
+      fields[field] = 'text';
+      weights[field] = weight;
+    }
+
+    return [fields, { weights }];
+  }
+
+  private buildFilterQuery(
+    options: QueryOptions,
+    issues: QueryValidationIssue[],
+    access: FieldAccessRules = {}
+  ): Record<string, any> {
+    const filterQuery: any = {};
+    const filterableFields = this.filterableFields.filter(({ field }) => isPermitted(field, access.filterable, access));
+    const firstIssue = issues.length;
+
+    options = this.toSchemaKeys(options);
+
+    for (const config of filterableFields) {
+      const clause = this.buildFieldClause(config, this.collectConditions(config.field, options), issues);
+      if (clause !== undefined) {
+        filterQuery[config.field] = clause;
+      }
+    }
+
+    // Grouped conditions are kept under $and so they can't replace the plain filters
+    if (options.filter !== undefined && options.filter !== '') {
+      const group = this.buildFilterGroup(options.filter, filterableFields, issues);
+      if (group) filterQuery.$and = [group];
+    }
+
+    // Report parameters that don't belong to any filterable field
+    for (const key of Object.keys(options)) {
+      const field = OPERATOR_KEY_PATTERN.exec(key)?.[1] ?? key;
+      if (!RESERVED_OPTIONS.includes(key) && !filterableFields.some((config) => config.field === field)) {
+        issues.push({ parameter: key, value: options[key], reason: 'Field is not filterable' });
+      }
+    }
+
+    // Issues refer to the names the client used
+    for (const issue of issues.slice(firstIssue)) {
+      const match = OPERATOR_KEY_PATTERN.exec(issue.parameter);
+      issue.parameter = match
+        ? `${renamePath(match[1], this.publicNames)}[${match[2]}]`
+        : renamePath(issue.parameter, this.publicNames);
+    }
+
+    return filterQuery;
+  }
+
+  private buildFilterGroup(
+    filter: unknown,
+    filterableFields: FilterableFieldConfig[],
+    issues: QueryValidationIssue[]
+  ): Record<string, any> | undefined {
+    let node: FilterNode;
+
+    try {
+      if (typeof filter === 'string') {
+        node = filter.trim().startsWith('{') ? parseFilterObject(JSON.parse(filter)) : parseRsql(filter);
+      } else {
+        node = parseFilterObject(filter);
+      }
+    } catch (error) {
+      issues.push({ parameter: 'filter', value: filter, reason: `Invalid filter: ${(error as Error).message}` });
+      return undefined;
+    }
+
+    return this.compileFilterNode(node, filterableFields, issues);
+  }
+
+  private compileFilterNode(
+    node: FilterNode,
+    filterableFields: FilterableFieldConfig[],
+    issues: QueryValidationIssue[]
+  ): Record<string, any> | undefined {
+    if ('and' in node || 'or' in node) {
+      const children = ('and' in node ? node.and : node.or)
+        .map((child) => this.compileFilterNode(child, filterableFields, issues))
+        .filter((child): child is Record<string, any> => child !== undefined);
+
+      if (children.length <= 1) return children[0];
+      return 'and' in node ? { $and: children } : { $or: children };
+    }
+
+    // MongoDB has no top-level $not, but $nor with a single clause negates it
+    if ('not' in node) {
+      const child = this.compileFilterNode(node.not, filterableFields, issues);
+      return child && { $nor: [child] };
+    }
+
+    const field = renamePath(node.field, this.fieldAliases);
+    const config = filterableFields.find((filterable) => filterable.field === field);
+
+    if (!config) {
+      issues.push({ parameter: 'filter', value: node.field, reason: 'Field is not filterable' });
+      return undefined;
+    }
+
+    const clause = this.buildFieldClause(config, [[node.operator, node.value]], issues);
+    return clause !== undefined ? { [field]: clause } : undefined;
+  }
+
+  // Rewrites aliased filter keys, including bracket keys like 'created[gte]', to schema paths
+  private toSchemaKeys(options: QueryOptions): QueryOptions {
+    if (this.fieldAliases.size === 0) return options;
+
+    const translated: QueryOptions = {};
+
+    for (const [key, value] of Object.entries(options)) {
+      const match = OPERATOR_KEY_PATTERN.exec(key);
+      const renamed = match
+        ? `${renamePath(match[1], this.fieldAliases)}[${match[2]}]`
+        : renamePath(key, this.fieldAliases);
+      translated[RESERVED_OPTIONS.includes(key) ? key : renamed] = value;
+    }
+
+    return translated;
+  }
+
+  private collectConditions(field: string, options: QueryOptions): Array<[string, any]> {
+    const conditions: Array<[string, any]> = [];
+    const value = options[field];
+
+    // Nested form, e.g. { price: { gte: 10 } } as produced by qs-style parsers
+    if (isPlainObject(value)) {
+      conditions.push(...Object.entries(value));
+    } else if (value !== undefined) {
+      conditions.push(['eq', value]);
+    }
+
+    // Flat bracket form, e.g. { 'price[gte]': '10' }
+    for (const [key, operatorValue] of Object.entries(options)) {
+      const match = OPERATOR_KEY_PATTERN.exec(key);
+      if (match && match[1] === field) {
+        conditions.push([match[2], operatorValue]);
+      }
+    }
+
+    return conditions;
+  }
+
+  private buildFieldClause(
+    config: FilterableFieldConfig,
+    conditions: Array<[string, any]>,
+    issues: QueryValidationIssue[]
+  ): any {
+    const clause: Record<string, any> = {};
+    const allowedOperators = config.operators || FILTER_OPERATORS;
+
+    for (const [operator, rawValue] of conditions) {
+      const parameter = operator === 'eq' ? config.field : `${config.field}[${operator}]`;
+
+      // Unknown or disallowed operators (including raw `$` operators) are dropped rather than forwarded to MongoDB
+      if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+        issues.push({ parameter, value: rawValue, reason: `Unknown operator "${operator}"` });
+        continue;
+      }
+      if (!allowedOperators.includes(operator as FilterOperator)) {
+        issues.push({ parameter, value: rawValue, reason: `Operator "${operator}" is not allowed` });
+        continue;
+      }
+
+      const value = this.coerceOperatorValue(config, operator as FilterOperator, rawValue, parameter, issues);
+      if (value !== undefined) {
+        clause[`$${operator}`] = value;
+      }
+    }
+
+    const operators = Object.keys(clause);
+    if (operators.length === 0) return undefined;
+
+    // Plain equality keeps the simple { field: value } shape
+    if (operators.length === 1 && operators[0] === '$eq') return clause.$eq;
+
+    return clause;
+  }
+
+  private coerceOperatorValue(
+    config: FilterableFieldConfig,
+    operator: FilterOperator,
+    value: any,
+    parameter: string,
+    issues: QueryValidationIssue[]
+  ): any {
+    const acceptsList = ['eq', 'ne', 'in', 'nin'].includes(operator);
+    const values = Array.isArray(value) && acceptsList ? value : [value];
+
+    // Only scalars are accepted, so nested objects such as { $gt: '' } can't smuggle in operators
+    if (!values.every(isScalar)) {
+      issues.push({ parameter, value, reason: 'Value must be a scalar' });
+      return undefined;
+    }
+
+    if (operator === 'exists') {
+      const exists = parseBoolean(value);
+      if (exists === undefined) {
+        issues.push({ parameter, value, reason: 'Value must be a boolean' });
+      }
+      return exists;
+    }
+
+    if (operator === 'in' || operator === 'nin') {
+      const items = Array.isArray(value) ? value : String(value).split(',');
+      const coerced: any[] = [];
+
+      // Invalid items are dropped individually so one bad value doesn't discard the whole list
+      for (const item of items) {
+        const coercedItem = this.coerceValue(config, typeof item === 'string' ? item.trim() : item);
+        if (coercedItem === undefined) {
+          issues.push({ parameter, value: item, reason: 'Invalid value' });
+        } else {
+          coerced.push(coercedItem);
+        }
+      }
+
+      return coerced.length > 0 ? coerced : undefined;
+    }
+
+    const coerced = values.map((item) => this.coerceValue(config, item));
+    if (coerced.includes(undefined)) {
+      issues.push({ parameter, value, reason: 'Invalid value' });
+      return undefined;
+    }
+
+    return Array.isArray(value) ? coerced : coerced[0];
+  }
+
+  private coerceValue(config: FilterableFieldConfig, value: any): any {
+    const coerced = this.castValue(config.type || this.resolveFieldType(config.field), value);
+
+    if (coerced !== undefined && config.enum && !config.enum.some((allowed) => String(allowed) === String(coerced))) {
+      return undefined;
+    }
+
+    return coerced;
+  }
+
+  private castValue(type: FieldType | undefined, value: any): any {
+    // Values set programmatically are already typed; only query strings need casting
+    if (!type || typeof value !== 'string') return value;
+
+    switch (type) {
+      case 'number': {
+        const number = Number(value);
+        return value.trim() === '' || Number.isNaN(number) ? undefined : number;
+      }
+      case 'date': {
+        const date = new Date(/^-?\d+$/.test(value) ? Number(value) : value);
+        return Number.isNaN(date.getTime()) ? undefined : date;
+      }
+      case 'boolean':
+        return parseBoolean(value);
+      case 'objectId':
+        return /^[0-9a-fA-F]{24}$/.test(value) ? new Types.ObjectId(value) : undefined;
+      default:
+        return value;
+    }
+  }
+
+  private resolveFieldType(field: string): FieldType | undefined {
+    let schemaType: any = this.model.schema?.path(field);
+
+    // Paths through a reference are typed by the referenced model's schema
+    if (!schemaType) {
+      const reference = this.resolveReferencePath(field);
+      schemaType = reference?.model.schema?.path(reference.subPath);
+    }
+
+    if (!schemaType) return undefined;
+
+    // Arrays are filtered by their element type
+    const instance = schemaType.instance === 'Array' ? schemaType.caster?.instance : schemaType.instance;
+    return SCHEMA_FIELD_TYPES[instance];
+  }
+
+  // Returns the model a schema path references through its `ref` option
+  private getReferenceModel(path: string): Model<any> | undefined {
+    const schemaType: any = this.model.schema?.path(path);
+    const ref = schemaType?.instance === 'Array' ? schemaType.caster?.options?.ref : schemaType?.options?.ref;
+
+    if (!ref) return undefined;
+
+    return typeof ref === 'string' ? this.model.db.model(ref) : ref;
+  }
+
+  // Splits a dotted path at the reference it goes through, e.g. `author` + `role` for `author.role`
+  private resolveReferencePath(field: string): { path: string; subPath: string; model: Model<any> } | undefined {
+    const segments = field.split('.');
+
+    for (let index = 1; index < segments.length; index++) {
+      const path = segments.slice(0, index).join('.');
+      const model = this.getReferenceModel(path);
+
+      if (model) {
+        return { path, subPath: segments.slice(index).join('.'), model };
+      }
+    }
+
+    return undefined;
+  }
+
+  // Rewrites filters on referenced documents into `_id` filters on the reference, e.g.
+  // { 'author.role': 'admin' } becomes { author: { $in: [ids of admin authors] } }
+  private async resolveReferenceFilters(
+    filterQuery: Record<string, any>,
+    lookupPaths: string[] = []
+  ): Promise<Record<string, any>> {
+    const resolved: Record<string, any> = {};
+    const references = new Map<string, { model: Model<any>; query: Record<string, any> }>();
+
+    for (const [field, clause] of Object.entries(filterQuery)) {
+      // Grouped conditions are resolved one by one
+      if (['$and', '$or', '$nor'].includes(field)) {
+        resolved[field] = await Promise.all(
+          clause.map((predicate: Record<string, any>) => this.resolveReferenceFilters(predicate, lookupPaths))
+        );
+        continue;
+      }
+
+      // Paths joined with $lookup can be matched directly
+      const joined = lookupPaths.some((path) => field.startsWith(`${path}.`));
+      const reference = joined ? undefined : this.resolveReferencePath(field);
+
+      if (!reference) {
+        resolved[field] = clause;
+        continue;
+      }
+
+      const entry = references.get(reference.path) || { model: reference.model, query: {} };
+      entry.query[reference.subPath] = clause;
+      references.set(reference.path, entry);
+    }
+
+    await Promise.all(Array.from(references, async ([path, { model, query }]) => {
+      // Fetching one id too many tells us the filter is too broad without loading everything
+      const docs = await model.find(query, { _id: 1 }).limit(this.maxReferenceIds + 1).lean().exec();
+
+      if (docs.length > this.maxReferenceIds) {
+        throw new QueryValidationError([{
+          parameter: path,
+          value: query,
+          reason: `Filter matches more than ${this.maxReferenceIds} referenced documents`,
+        }]);
+      }
+
+      const ids = docs.map((doc: any) => doc._id);
+      const existing = resolved[path];
+
+      // Keep any direct filter on the reference itself
+      if (existing === undefined) {
+        resolved[path] = { $in: ids };
+      } else if (isPlainObject(existing)) {
+        const allowed = existing.$in
+          ? existing.$in.filter((id: unknown) => ids.some((other: unknown) => String(other) === String(id)))
+          : ids;
+        resolved[path] = { ...existing, $in: allowed };
+      } else {
+        resolved[path] = { $eq: existing, $in: ids };
+      }
+    }));
+
+    return resolved;
+  }
+
+  private parseSortString(
+    sort: unknown,
+    issues: QueryValidationIssue[],
+    textSearch = false,
+    access?: FieldAccessRules
+  ): Record<string, SortValue> {
+    const sortQuery: Record<string, SortValue> = {};
+    
+    if (!sort) return sortQuery;
+
+    if (typeof sort !== 'string') {
+      issues.push({ parameter: 'sort', value: sort, reason: 'Sort must be a string' });
+      return sortQuery;
+    }
+
+    // Without access rules the sort comes from the server (e.g. a populate config) and isn't restricted
+    const entries = sort.split(',').flatMap((field) => (access ? this.expandSortAlias(field) : [{ field, alias: false }]));
+
+    entries.forEach(({ field, alias }) => {
+      const order = field.startsWith('-') ? -1 : 1;
+      const name = field.startsWith('-') ? field.substring(1) : field;
+      const fieldName = access && !alias ? renamePath(name, this.fieldAliases) : name;
+
+      if (this.searchMode === 'text' && name === RELEVANCE_SORT) {
+        if (textSearch) {
+          sortQuery.score = TEXT_SCORE;
+        } else {
+          issues.push({ parameter: 'sort', value: field, reason: 'Relevance sort requires a text search term' });
+        }
+        return;
+      }
+
+      if (!FIELD_NAME_PATTERN.test(fieldName)) {
+        issues.push({ parameter: 'sort', value: field, reason: 'Invalid field name' });
+        return;
+      }
+
+      // Alias targets are defined by the server, so only the access policy applies to them
+      if (
+        access &&
+        ((!alias && this.sortableFields.length > 0 && !this.sortableFields.includes(fieldName)) ||
+          !isPermitted(fieldName, access.sortable, access))
+      ) {
+        issues.push({ parameter: 'sort', value: field, reason: 'Field is not sortable' });
+        return;
+      }
+
+      sortQuery[fieldName] = order;
+    });
+
+    return sortQuery;
+  }
+
+  // '-newest' reverses every field of the 'newest' alias
+  private expandSortAlias(field: string): Array<{ field: string; alias: boolean }> {
+    const descending = field.startsWith('-');
+    const target = this.sortAliases.get(descending ? field.substring(1) : field);
+
+    if (target === undefined) return [{ field, alias: false }];
+
+    return target.split(',').map((entry) => ({
+      field: descending ? (entry.startsWith('-') ? entry.substring(1) : `-${entry}`) : entry,
+      alias: true,
+    }));
+  }
+
+  private buildSortQuery(
+    sort: unknown,
+    issues: QueryValidationIssue[],
+    textSearch: boolean,
+    access: FieldAccessRules
+  ): Record<string, SortValue> {
+    const sortQuery = this.parseSortString(sort || this.defaultSort, issues, textSearch, access);
+    const fields = Object.keys(sortQuery);
+
+    // _id breaks ties so documents with equal sort keys keep the same order across pages
+    if (fields.length > 0 && sortQuery._id === undefined) {
+      const last = sortQuery[fields[fields.length - 1]];
+      sortQuery._id = typeof last === 'number' ? last : 1;
+    }
+
+    return sortQuery;
+  }
+
+  private buildSelectQuery(
+    select: unknown,
+    issues: QueryValidationIssue[],
+    access: FieldAccessRules = {}
+  ): string | null {
+    if (!select) return this.withHiddenExclusions([], access);
+
+    if (typeof select !== 'string') {
+      issues.push({ parameter: 'select', value: select, reason: 'Select must be a string' });
+      return this.withHiddenExclusions([], access);
+    }
+    
+    // Filter fields based on selectableFields (if empty, allow all fields)
+    const fields = select.split(',');
+    const toSchemaPath = (field: string) => field.startsWith('-')
+      ? `-${renamePath(field.substring(1), this.fieldAliases)}`
+      : renamePath(field, this.fieldAliases);
+
+    const validFields = fields.filter(field => {
+      // Handle exclusion fields (fields with minus prefix)
+      const fieldName = renamePath(field.startsWith('-') ? field.substring(1) : field, this.fieldAliases);
+
+      if (!FIELD_NAME_PATTERN.test(fieldName)) {
+        issues.push({ parameter: 'select', value: field, reason: 'Invalid field name' });
+        return false;
+      }
+
+      if (this.selectableFields.length > 0 && !this.selectableFields.includes(fieldName)) {
+        issues.push({ parameter: 'select', value: field, reason: 'Field is not selectable' });
+        return false;
+      }
+
+      // Including a parent of a hidden field would return the hidden field with it
+      const hidden = access.hidden || [];
+      if (
+        !field.startsWith('-') &&
+        (!isPermitted(fieldName, access.selectable, access) || hidden.some((path) => path.startsWith(`${fieldName}.`)))
+      ) {
+        issues.push({ parameter: 'select', value: field, reason: 'Field is not selectable' });
+        return false;
+      }
+
+      return true;
+    }).map(toSchemaPath);
+    
+    return this.withHiddenExclusions(validFields, access) ?? validFields.join(' ');
+  }
+
+  // Inclusion projections already leave hidden fields out; anything else has to exclude them explicitly
+  private withHiddenExclusions(fields: string[], access: FieldAccessRules): string | null {
+    if (!access.hidden?.length || fields.some((field) => !field.startsWith('-'))) return null;
+
+    const exclusions = access.hidden
+      .map((field) => `-${field}`)
+      .filter((field) => !fields.includes(field));
+
+    return [...fields, ...exclusions].join(' ');
+  }
+
+  private buildPopulateFields(
+    populate: unknown,
+    issues: QueryValidationIssue[],
+    access: FieldAccessRules = {}
+  ): Array<string | PopulateOptions> {
+    if (!populate) return [];
+
+    if (typeof populate !== 'string') {
+      issues.push({ parameter: 'populate', value: populate, reason: 'Populate must be a string' });
+      return [];
+    }
+
+    const roots: PopulateOptions[] = [];
+    const nodes = new Map<string, PopulateOptions>();
+
+    for (const entry of splitTopLevel(populate)) {
+      const match = POPULATE_ENTRY_PATTERN.exec(entry);
+      const field = match ? renamePath(match[1].trim(), this.fieldAliases) : entry;
+
+      if (!match || !FIELD_NAME_PATTERN.test(field)) {
+        issues.push({ parameter: 'populate', value: entry, reason: 'Invalid field name' });
+        continue;
+      }
+
+      // Filter fields based on populatableFields (if empty, allow all fields)
+      const config = this.populatableFields.find((populatable) => populatable.field === field);
+      if ((this.populatableFields.length > 0 && !config) || !isPermitted(field, access.populatable, access)) {
+        issues.push({ parameter: 'populate', value: entry, reason: 'Field is not populatable' });
+        continue;
+      }
+
+      const segments = field.split('.');
+      if (segments.length > this.maxPopulateDepth) {
+        issues.push({ parameter: 'populate', value: entry, reason: `Populate depth is limited to ${this.maxPopulateDepth}` });
+        continue;
+      }
+
+      // Each segment populates a reference on the documents populated by the previous one
+      let siblings = roots;
+      let node: PopulateOptions | undefined;
+
+      segments.forEach((segment, index) => {
+        const path = segments.slice(0, index + 1).join('.');
+        node = nodes.get(path);
+
+        if (!node) {
+          node = this.createPopulateNode(segment, path);
+          nodes.set(path, node);
+          siblings.push(node);
+        }
+
+        if (index < segments.length - 1) {
+          node.populate = node.populate || [];
+          siblings = node.populate as PopulateOptions[];
+        }
+      });
+
+      if (node && match[2] !== undefined) {
+        node.select = this.buildPopulateSelect(entry, match[2], config, issues) ?? node.select;
+      }
+    }
+
+    return roots.map((node) => this.finalizePopulateNode(node));
+  }
+
+  private createPopulateNode(segment: string, path: string): PopulateOptions {
+    const config = this.populatableFields.find((populatable) => populatable.field === path);
+    const node: PopulateOptions = { path: segment };
+
+    // Without a field list from the client, only the allowed fields are returned
+    if (config?.select) node.select = config.select.join(' ');
+    if (config?.match) node.match = { ...config.match };
+    if (config?.sort) node.options = { sort: config.sort };
+    if (config?.limit) node.perDocumentLimit = config.limit;
+
+    return node;
+  }
+
+  private buildPopulateSelect(
+    entry: string,
+    fieldList: string,
+    config: PopulatableFieldConfig | undefined,
+    issues: QueryValidationIssue[]
+  ): string | undefined {
+    const fields = fieldList.split(',').map((field) => field.trim()).filter((field) => {
+      const fieldName = field.startsWith('-') ? field.substring(1) : field;
+
+      if (!FIELD_NAME_PATTERN.test(fieldName)) {
+        issues.push({ parameter: 'populate', value: entry, reason: `Invalid field name "${field}"` });
+        return false;
+      }
+
+      // Exclusions would expose every field that isn't excluded, so they can't be combined with an allow-list
+      if (config?.select && (field.startsWith('-') || !config.select.includes(fieldName))) {
+        issues.push({ parameter: 'populate', value: entry, reason: `Field "${field}" is not selectable` });
+        return false;
+      }
+
+      return true;
+    });
+
+    return fields.length > 0 ? fields.join(' ') : undefined;
+  }
+
+  private finalizePopulateNode(node: PopulateOptions): string | PopulateOptions {
+    const children = (node.populate as PopulateOptions[] | undefined) || [];
+
+    // Nested references must be part of the parent's selection to be populated
+    if (typeof node.select === 'string' && children.length > 0 && !node.select.split(' ').some((field) => field.startsWith('-'))) {
+      const selected = node.select.split(' ');
+      node.select = [...selected, ...children.map((child) => child.path).filter((path) => !selected.includes(path))].join(' ');
+    }
+
+    if (children.length > 0) {
+      node.populate = children.map((child) => this.finalizePopulateNode(child)) as PopulateOptions[];
+    }
+
+    // Plain paths are passed to populate() as strings
+    return Object.keys(node).length === 1 ? node.path : node;
+  }
+
+  private resolveInteger(
+    parameter: string,
+    value: unknown,
+    fallback: number,
+    min: number,
+    max: number | undefined,
+    issues: QueryValidationIssue[]
+  ): number {
+    if (value === undefined) return fallback;
+
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      issues.push({ parameter, value, reason: 'Must be an integer' });
+      return fallback;
+    }
+
+    let number = parsed;
+    if (!Number.isInteger(number)) {
+      issues.push({ parameter, value, reason: 'Must be an integer' });
+      number = Math.floor(number);
+    }
+
+    if (number < min) {
+      issues.push({ parameter, value, reason: `Must be at least ${min}` });
+      return min;
+    }
+
+    if (max !== undefined && number > max) {
+      issues.push({ parameter, value, reason: `Must be at most ${max}` });
+      return max;
+    }
+
+    return number;
+  }
+
+  private resolveLimit(limit: unknown, issues: QueryValidationIssue[]): number {
+    return this.resolveInteger('limit', limit, this.defaultLimit, 1, this.maxLimit, issues);
+  }
+
+  // Out-of-range values are clamped, or rejected in strict mode
+  private resolvePagination(
+    page: unknown,
+    limit: unknown,
+    issues: QueryValidationIssue[]
+  ): { page: number; limit: number; skip: number } {
+    const effectiveLimit = this.resolveLimit(limit, issues);
+    let effectivePage = this.resolveInteger('page', page, 1, 1, undefined, issues);
+
+    if (this.maxSkip !== undefined && (effectivePage - 1) * effectiveLimit > this.maxSkip) {
+      const maxPage = Math.floor(this.maxSkip / effectiveLimit) + 1;
+      issues.push({ parameter: 'page', value: page, reason: `Must be at most ${maxPage} with a limit of ${effectiveLimit}` });
+      effectivePage = maxPage;
+    }
+
+    return { page: effectivePage, limit: effectiveLimit, skip: (effectivePage - 1) * effectiveLimit };
+  }
+
+  // In strict mode any rejected parameter fails the whole query instead of being dropped
+  private assertValid(issues: QueryValidationIssue[]): void {
+    if (this.strict && issues.length > 0) {
+      throw new QueryValidationError(issues);
+    }
+  }
+
+  private createFindQuery(
+    query: object,
+    sortQuery: Record<string, SortValue>,
+    selectQuery: string | null,
+    populateFields: Array<string | PopulateOptions>,
+    textSearch: boolean,
+    lean = this.lean
+  ): Query<any, T> {
+    let findQuery = this.model.find(query);
+
+    if (lean) {
+      findQuery = findQuery.lean() as any;
+    }
+
+    if (sortQuery && Object.keys(sortQuery).length > 0) {
+      findQuery = findQuery.sort(sortQuery);
+    }
+
+    if (selectQuery) {
+      findQuery = findQuery.select(selectQuery);
+    }
+
+    // Expose the text search score so results can be ranked
+    if (textSearch) {
+      findQuery = findQuery.select({ score: TEXT_SCORE });
+    }
+
+    // Apply populate fields
+    populateFields.forEach(field => {
+      // Using type assertion to handle the TypeScript error
+      findQuery = findQuery.populate(field as any) as any;
+    });
+
+    return findQuery;
+  }
+
+  private resolveCountMode(count: unknown, issues: QueryValidationIssue[]): CountMode {
+    if (count === undefined) return 'exact';
+
+    if (!COUNT_MODES.includes(count as CountMode)) {
+      issues.push({ parameter: 'count', value: count, reason: `Must be one of: ${COUNT_MODES.join(', ')}` });
+      return 'exact';
+    }
+
+    return count as CountMode;
+  }
+
+  private toOutput(docs: any[]): TOutput[] {
+    const { transform } = this;
+    const renamed = this.renameDocs(docs);
+
+    return transform ? renamed.map((doc) => transform(doc)) : renamed;
+  }
+
+  private renameDocs(docs: any[]): any[] {
+    if (!this.renameResults || this.fieldAliases.size === 0) return docs;
+
+    return docs.map((doc) => {
+      let renamed: Record<string, any> = typeof doc?.toObject === 'function' ? doc.toObject() : doc;
+
+      for (const [name, path] of this.fieldAliases) {
+        const value = getPathValue(renamed, path);
+        if (value !== undefined) {
+          renamed = withPath(omitPath(renamed, path), name, value);
+        }
+      }
+
+      return renamed;
+    });
+  }
+
+  private buildPaginationResult(
+    docs: any[],
+    totalDocs: number | null,
+    { page, limit, skip }: { page: number; limit: number; skip: number },
+    countMode: CountMode
+  ): PaginationResult<TOutput> {
+    // Without a total, `docs` holds one extra document that signals a next page
+    const totalPages = totalDocs !== null ? Math.ceil(totalDocs / limit) : null;
+    const hasNextPage = totalPages !== null ? page < totalPages : docs.length > limit;
+
+    return {
+      docs: this.toOutput(totalDocs !== null ? docs : docs.slice(0, limit)),
+      totalDocs,
+      limit,
+      page,
+      totalPages,
+      countMode,
+      hasNextPage,
+      hasPrevPage: page > 1,
+      nextPage: hasNextPage ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+      pagingCounter: skip + 1,
+      offset: skip,
+    };
+  }
+
+  async findWithOptions(
+    options: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<PaginationResult<TOutput>> {
+    return this.execute('find', options, execution, (parsed, hook) => this.runFind(parsed, execution, hook));
+  }
+
+  // Compiles options exactly as findWithOptions sends them to MongoDB
+  private async compileFind(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<CompiledFind> {
+    const { q, page: rawPage, limit: rawLimit, sort, select, populate, count, facets, ...filterOptions } = options;
+    const issues: QueryValidationIssue[] = [];
+    const access = await this.resolveAccess(execution.context);
+    const pagination = this.resolvePagination(rawPage, rawLimit, issues);
+    const { limit, skip } = pagination;
+
+    const searchQuery = this.buildSearchQuery(q, issues, access);
+    const filterQuery = this.buildFilterQuery(filterOptions, issues, access);
+    const textSearch = '$text' in searchQuery;
+    const sortQuery = this.buildSortQuery(sort, issues, textSearch, access);
+    const selectQuery = this.buildSelectQuery(select, issues, access);
+    const populateFields = this.buildPopulateFields(populate, issues, access);
+    const facetFields = facets !== undefined ? this.resolveFacetFields(facets, issues, access) : [];
+    let countMode = this.resolveCountMode(count, issues);
+
+    this.assertValid(issues);
+
+    const query = await this.runBeforeQuery(await this.applyScopes(
+      andClauses([searchQuery, await this.resolveReferenceFilters(filterQuery)]),
+      execution
+    ), options, hook);
+
+    // estimatedDocumentCount reads collection metadata and can't apply a filter
+    if (countMode === 'estimated' && Object.keys(query).length > 0) {
+      countMode = 'exact';
+    }
+
+    return { query, sortQuery, selectQuery, populateFields, facetFields, countMode, pagination, textSearch };
+  }
+
+  private async runFind(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<PaginationResult<TOutput>> {
+    const { facets } = options;
+    const compiled = await this.compileFind(options, execution, hook);
+    const { query, sortQuery, selectQuery, populateFields, facetFields, countMode, pagination, textSearch } = compiled;
+    const { limit, skip } = pagination;
+
+    const lean = execution.lean ?? this.lean;
+    const cacheQuery = {
+      filter: query,
+      sort: Object.entries(sortQuery),
+      select: selectQuery,
+      populate: populateFields,
+      skip,
+      limit,
+      countMode,
+      facets: facetFields.map(({ field }) => field),
+      lean,
+    };
+
+    return this.withCache('find', execution, cacheQuery, async () => {
+      const findQuery = this.createFindQuery(query, sortQuery, selectQuery, populateFields, textSearch, lean).skip(skip);
+      const facetCounts = facets !== undefined ? this.countFacets(query, facetFields) : undefined;
+
+      if (countMode === 'none') {
+        // One extra document tells us whether there is a next page without counting
+        const [results, facetResults] = await Promise.all([findQuery.limit(limit + 1).exec(), facetCounts]);
+        return this.withFacets(this.buildPaginationResult(results, null, pagination, countMode), facetResults);
+      }
+
+      const [docs, totalDocs, facetResults] = await Promise.all([
+        findQuery
+          .limit(limit)
+          .exec(),
+        countMode === 'estimated'
+          ? this.model.estimatedDocumentCount()
+          : this.model.countDocuments(query),
+        facetCounts,
+      ]);
+
+      return this.withFacets(this.buildPaginationResult(docs, totalDocs, pagination, countMode), facetResults);
+    });
+  }
+
+  // Dry run: compiles the query without executing it
+  async buildQuery(options: QueryOptions = {}, execution: QueryExecutionOptions = {}): Promise<CompiledQuery> {
+    return this.execute('build', options, execution, async (parsed, hook) =>
+      this.toCompiledQuery(await this.compileFind(parsed, execution, hook))
+    );
+  }
+
+  async explainWithOptions(options: QueryOptions = {}, execution: QueryExecutionOptions = {}): Promise<QueryExplanation> {
+    return this.execute('explain', options, execution, async (parsed, hook) => {
+      const compiled = await this.compileFind(parsed, execution, hook);
+      const { query, sortQuery, selectQuery, populateFields, pagination, textSearch } = compiled;
+
+      const raw = await this.createFindQuery(query, sortQuery, selectQuery, populateFields, textSearch)
+        .skip(pagination.skip)
+        .limit(pagination.limit)
+        .explain('executionStats')
+        .exec();
+
+      // Depending on the server version a find explain is a document or a one-element array
+      const explain: any = Array.isArray(raw) ? raw[0] : raw;
+      const stages = collectPlanStages(explain?.queryPlanner?.winningPlan);
+      const stats = explain?.executionStats || {};
+
+      return {
+        query: this.toCompiledQuery(compiled),
+        index: stages.find((stage) => stage.indexName)?.indexName ?? null,
+        collectionScan: stages.some((stage) => stage.stage === 'COLLSCAN'),
+        docsExamined: stats.totalDocsExamined ?? 0,
+        keysExamined: stats.totalKeysExamined ?? 0,
+        docsReturned: stats.nReturned ?? 0,
+        executionTimeMillis: stats.executionTimeMillis ?? 0,
+        explain,
+      };
+    });
+  }
+
+  private toCompiledQuery({ query, sortQuery, selectQuery, populateFields, pagination, textSearch }: CompiledFind): CompiledQuery {
+    const projection: CompiledQuery['projection'] = this.buildProjection(selectQuery, false);
+
+    // Matches the score projection createFindQuery adds for text searches
+    const withScore = textSearch ? { ...projection, score: TEXT_SCORE } : projection;
+
+    return {
+      filter: query,
+      sort: sortQuery,
+      projection: withScore,
+      populate: populateFields,
+      skip: pagination.skip,
+      limit: pagination.limit,
+    };
+  }
+
+  // Every matching document, read through a cursor instead of loaded as a page
+  async streamWithOptions(options: QueryOptions = {}, stream: StreamOptions = {}): Promise<Readable> {
+    const { format = 'objects', batchSize = DEFAULT_BATCH_SIZE } = stream;
+
+    if (!STREAM_FORMATS.includes(format)) {
+      throw new Error(`Unknown stream format "${format}". Must be one of: ${STREAM_FORMATS.join(', ')}`);
+    }
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('batchSize must be a positive integer');
+    }
+
+    return this.execute('stream', options, stream, async (parsed, hook) => {
+      const unpaged = Object.fromEntries(Object.entries(parsed).filter(([key]) => !PAGE_OPTIONS.includes(key)));
+      const compiled = await this.compileFind(unpaged, stream, hook);
+      const { query, sortQuery, selectQuery, populateFields, textSearch } = compiled;
+
+      const lean = stream.lean ?? this.lean;
+      const cursor = this.createFindQuery(query, sortQuery, selectQuery, populateFields, textSearch, lean).cursor({ batchSize });
+      const docs = this.streamOutput(cursor, hook);
+
+      if (format === 'ndjson') return Readable.from(serializeNdjson(docs));
+      if (format === 'csv') return Readable.from(serializeCsv(docs, stream.columns ?? this.selectedColumns(selectQuery)));
+      return Readable.from(docs);
+    });
+  }
+
+  // Runs after streamWithOptions has returned, so errors reach onError from here
+  private async *streamOutput(cursor: AsyncIterable<any>, hook: QueryHookContext): AsyncGenerator<TOutput> {
+    try {
+      for await (const doc of cursor) {
+        let output = this.toOutput([doc])[0];
+        for (const { afterDocument } of this.hooks) {
+          if (afterDocument) output = (await afterDocument(output, hook)) ?? output;
+        }
+        yield output;
+      }
+    } catch (error) {
+      for (const { onError } of this.hooks) {
+        if (onError) await onError(error, hook);
+      }
+      throw error;
+    }
+  }
+
+  // Included fields under the names results carry
+  private selectedColumns(selectQuery: string | null): string[] | undefined {
+    const fields = (selectQuery || '').split(' ').filter((field) => field && !field.startsWith('-'));
+    if (fields.length === 0) return undefined;
+
+    if (!this.renameResults) return fields;
+
+    const names = new Map([...this.fieldAliases].map(([name, path]) => [path, name]));
+    return fields.map((field) => names.get(field) ?? field);
+  }
+
+  // Checks the toolkit's configuration and presets against the model's indexes
+  async analyzeIndexes(): Promise<IndexReport> {
+    const indexes: Array<{ key: Record<string, any>; weights?: Record<string, number> }> = [{ key: { _id: 1 } }];
+    const addIndex = (key: Record<string, any>, weights?: Record<string, number>) => {
+      if (!indexes.some((index) => JSON.stringify(index.key) === JSON.stringify(key))) {
+        indexes.push({ key, weights });
+      }
+    };
+
+    for (const [key, options] of this.model.schema?.indexes() || []) {
+      addIndex(key, options?.weights);
+    }
+
+    // Indexes created outside the schema are only visible on a live connection
+    if (this.model.db?.readyState === 1) {
+      try {
+        for (const index of await this.model.listIndexes()) addIndex(index.key, index.weights);
+      } catch {
+        // The collection doesn't exist yet
+      }
+    }
+
+    const issues: IndexIssue[] = [];
+    const isIndexed = (field: string) => indexes.some(({ key }) => Object.keys(key)[0] === field);
+    // Filters on referenced documents become an $in on the reference itself
+    const indexedPath = (field: string) => this.resolveReferencePath(field)?.path ?? field;
+
+    for (const { field } of this.filterableFields) {
+      const path = indexedPath(field);
+      if (!(field in this.computedFields) && !isIndexed(path)) {
+        issues.push({ field, usage: 'filter', message: `No index starts with "${path}"` });
+      }
+    }
+
+    const sortFields = new Set([
+      ...this.sortableFields,
+      ...[this.defaultSort, ...this.sortAliases.values()].flatMap((sort) =>
+        (sort || '').split(',').filter(Boolean).map((field) => field.replace(/^-/, ''))
+      ),
+    ]);
+    for (const field of sortFields) {
+      if (!isIndexed(field)) {
+        issues.push({ field, usage: 'sort', message: `No index starts with "${field}", so sorting happens in memory` });
+      }
+    }
+
+    if (this.searchMode === 'text') {
+      const textIndex = indexes.find(({ key }) => Object.values(key).includes('text') || '_fts' in key);
+      const textFields = textIndex?.weights
+        ? Object.keys(textIndex.weights)
+        : Object.keys(textIndex?.key || {}).filter((field) => textIndex?.key[field] === 'text');
+
+      for (const { field } of this.searchFields) {
+        if (!textFields.includes(field)) {
+          const message = textIndex ? 'Not part of the text index' : 'Text search requires a text index, see getTextIndexDefinition()';
+          issues.push({ field, usage: 'search', message });
+        }
+      }
+    } else {
+      // Case-insensitive regexes can't use index bounds, but an index still avoids fetching every document
+      for (const { field } of this.searchFields) {
+        if (!isIndexed(field)) {
+          const message = this.searchMode === 'prefix'
+            ? `No index starts with "${field}"`
+            : `No index starts with "${field}", so every search scans the collection`;
+          issues.push({ field, usage: 'search', message });
+        }
+      }
+    }
+
+    const suggestions: IndexSuggestion[] = [];
+
+    for (const [preset, options] of this.presets) {
+      const index = this.suggestPresetIndex(options);
+      const fields = Object.keys(index);
+      const covered = indexes.some(({ key }) => fields.every((field, position) => Object.keys(key)[position] === field));
+
+      if (fields.length > 1 && !covered) {
+        suggestions.push({ preset, index });
+      }
+    }
+
+    return { indexes: indexes.map(({ key }) => key), issues, suggestions };
+  }
+
+  // Equality conditions first, then the sort, then range conditions (the ESR rule)
+  private suggestPresetIndex(options: QueryOptions): Record<string, 1 | -1> {
+    const equality: string[] = [];
+    const range: string[] = [];
+
+    for (const [key, value] of Object.entries(this.toSchemaKeys(options))) {
+      if (RESERVED_OPTIONS.includes(key)) continue;
+
+      const match = OPERATOR_KEY_PATTERN.exec(key);
+      const field = match?.[1] ?? key;
+      const operators = match ? [match[2]] : isPlainObject(value) ? Object.keys(value) : ['eq'];
+      const path = this.resolveReferencePath(field)?.path ?? field;
+
+      if (operators.some((operator) => RANGE_OPERATORS.includes(operator))) {
+        range.push(path);
+      } else {
+        equality.push(path);
+      }
+    }
+
+    const index: Record<string, 1 | -1> = {};
+    for (const field of equality) index[field] = 1;
+
+    const sort = typeof options.sort === 'string' ? options.sort : '';
+    for (const { field } of sort.split(',').filter(Boolean).flatMap((entry) => this.expandSortAlias(entry))) {
+      const name = renamePath(field.replace(/^-/, ''), this.fieldAliases);
+      if (name !== RELEVANCE_SORT && !(name in index)) index[name] = field.startsWith('-') ? -1 : 1;
+    }
+
+    for (const field of range) {
+      if (!(field in index)) index[field] = 1;
+    }
+
+    return index;
+  }
+
+  private withFacets(result: PaginationResult<TOutput>, facets: FacetCounts | undefined): PaginationResult<TOutput> {
+    return facets !== undefined ? { ...result, facets } : result;
+  }
+
+  // Resolves populate paths to $lookup stages using the `ref` declared in the schema
+  private buildLookupStages(
+    populateFields: Array<string | PopulateOptions>,
+    issues: QueryValidationIssue[]
+  ): { paths: string[]; stages: any[] } {
+    const paths: string[] = [];
+    const stages: any[] = [];
+
+    for (const entry of populateFields) {
+      const options: PopulateOptions = typeof entry === 'string' ? { path: entry } : entry;
+      const field = options.path;
+      const refModel = this.getReferenceModel(field);
+
+      if (!refModel) {
+        issues.push({ parameter: 'populate', value: field, reason: 'Field is not a reference' });
+        continue;
+      }
+
+      if (options.populate) {
+        issues.push({ parameter: 'populate', value: field, reason: 'Nested populate is not supported by findWithAggregate' });
+      }
+
+      const isArray = this.model.schema.path(field).instance === 'Array';
+      const lookup: Record<string, any> = { from: refModel.collection.name, localField: field, foreignField: '_id', as: field };
+
+      // Per-populate options run inside the lookup (MongoDB 5.0+)
+      const pipeline: any[] = [];
+      const projection = this.buildProjection(typeof options.select === 'string' ? options.select : null, false);
+      if (options.match) pipeline.push({ $match: options.match });
+      if (options.options?.sort) pipeline.push({ $sort: this.parseSortString(options.options.sort, issues) });
+      if (options.perDocumentLimit) pipeline.push({ $limit: options.perDocumentLimit });
+      if (projection) pipeline.push({ $project: projection });
+      if (pipeline.length > 0) lookup.pipeline = pipeline;
+
+      paths.push(field);
+      stages.push({ $lookup: lookup });
+
+      // Single references become a document (or disappear if missing), like populate()
+      if (!isArray) {
+        stages.push({ $unwind: { path: `$${field}`, preserveNullAndEmptyArrays: true } });
+      }
+    }
+
+    return { paths, stages };
+  }
+
+  private buildProjection(selectQuery: string | null, textSearch: boolean): Record<string, 0 | 1> | null {
+    const projection: Record<string, 0 | 1> = {};
+
+    for (const field of (selectQuery || '').split(' ').filter(Boolean)) {
+      if (field.startsWith('-')) {
+        projection[field.substring(1)] = 0;
+      } else {
+        projection[field] = 1;
+      }
+    }
+
+    // Keep the text score when only some fields are included
+    if (textSearch && Object.values(projection).includes(1)) {
+      projection.score = 1;
+    }
+
+    return Object.keys(projection).length > 0 ? projection : null;
+  }
+
+  async findWithAggregate(
+    options: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<PaginationResult<TOutput>> {
+    return this.execute('aggregate', options, execution, (parsed, hook) => this.runAggregate(parsed, execution, hook));
+  }
+
+  private async runAggregate(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<PaginationResult<TOutput>> {
+    const { q, page: rawPage, limit: rawLimit, sort, select, populate, count, ...filterOptions } = options;
+    const issues: QueryValidationIssue[] = [];
+    const access = await this.resolveAccess(execution.context);
+    const pagination = this.resolvePagination(rawPage, rawLimit, issues);
+    const { limit, skip } = pagination;
+
+    const searchQuery = this.buildSearchQuery(q, issues, access);
+    const filterQuery = this.buildFilterQuery(filterOptions, issues, access);
+    const textSearch = '$text' in searchQuery;
+
+    const sortQuery = this.buildSortQuery(sort, issues, textSearch, access);
+    const selectQuery = this.buildSelectQuery(select, issues, access);
+    const lookups = this.buildLookupStages(this.buildPopulateFields(populate, issues, access), issues);
+
+    // A single $facet returns the page and the total, so estimates are never needed
+    const countMode = this.resolveCountMode(count, issues) === 'none' ? 'none' : 'exact';
+
+    this.assertValid(issues);
+
+    // Filters on computed fields or inside looked-up documents can only run after those stages
+    const rootMatch: Record<string, any> = {};
+    const lateMatch: Record<string, any> = {};
+    const isLate = (field: string) =>
+      field in this.computedFields || lookups.paths.some((path) => field.startsWith(`${path}.`));
+
+    for (const [field, clause] of Object.entries(await this.resolveReferenceFilters(filterQuery, lookups.paths))) {
+      const late = collectPredicateFields({ [field]: clause }).some(isLate);
+      (late ? lateMatch : rootMatch)[field] = clause;
+    }
+
+    const pipeline: any[] = [];
+    const scopedMatch = await this.runBeforeQuery(
+      await this.applyScopes(andClauses([searchQuery, rootMatch]), execution),
+      options,
+      hook
+    );
+
+    // $text has to be part of the first stage
+    if (Object.keys(scopedMatch).length > 0) {
+      pipeline.push({ $match: scopedMatch });
+    }
+
+    if (textSearch) {
+      pipeline.push({ $addFields: { score: TEXT_SCORE } });
+    }
+
+    // Lookups and computed fields run once per document, so unless the late filters or the sort
+    // need them they run on the current page only, and the total is counted without them
+    const joinStages: any[] = [...lookups.stages];
+    if (Object.keys(this.computedFields).length > 0) {
+      joinStages.push({ $addFields: this.computedFields });
+    }
+
+    const joinFirst = Object.keys(lateMatch).length > 0 || Object.keys(sortQuery).some(isLate);
+    if (joinFirst) {
+      pipeline.push(...joinStages);
+    }
+
+    if (Object.keys(lateMatch).length > 0) {
+      pipeline.push({ $match: lateMatch });
+    }
+
+    if (Object.keys(sortQuery).length > 0) {
+      pipeline.push({ $sort: sortQuery });
+    }
+
+    const pageStages: any[] = [{ $skip: skip }, { $limit: countMode === 'none' ? limit + 1 : limit }];
+    if (!joinFirst) {
+      pageStages.push(...joinStages);
+    }
+
+    const projection = this.buildProjection(selectQuery, textSearch);
+
+    if (projection) {
+      pageStages.push({ $project: projection });
+    }
+
+    const cacheQuery = { filter: scopedMatch, pipeline, pageStages, countMode };
+
+    return this.withCache('aggregate', execution, cacheQuery, async () => {
+      if (countMode === 'none') {
+        const results = await this.model.aggregate([...pipeline, ...pageStages]).exec();
+        return this.buildPaginationResult(results, null, pagination, countMode);
+      }
+
+      const [facet] = await this.model
+        .aggregate([...pipeline, { $facet: { docs: pageStages, totalDocs: [{ $count: 'count' }] } }])
+        .exec();
+
+      return this.buildPaginationResult(facet.docs, facet.totalDocs[0]?.count ?? 0, pagination, countMode);
+    });
+  }
+
+  // One value per sort field, with the `_id` value cast like the schema would
+  private decodeCursorValues(cursor: string, sortQuery: Record<string, 1 | -1>): unknown[] | undefined {
+    const values = decodeCursor(cursor);
+    const fields = Object.keys(sortQuery);
+
+    if (!values || values.length !== fields.length) return undefined;
+
+    const idIndex = fields.indexOf('_id');
+    const idType = this.model.schema?.path('_id')?.instance ?? 'ObjectId';
+
+    if (idIndex !== -1 && idType === 'ObjectId') {
+      const id = values[idIndex];
+      if (typeof id === 'string' && /^[0-9a-f]{24}$/i.test(id)) {
+        values[idIndex] = new Types.ObjectId(id);
+      } else if (!(id instanceof Types.ObjectId)) {
+        return undefined;
+      }
+    }
+
+    return values;
+  }
+
+  // Builds the keyset predicate matching documents strictly after (or before) the cursor position.
+  // Null and missing values sort before everything else, and range operators never match them.
+  private buildCursorQuery(
+    sortQuery: Record<string, 1 | -1>,
+    values: unknown[],
+    direction: 'after' | 'before'
+  ): object {
+    const fields = Object.keys(sortQuery);
+
+    return {
+      $or: fields.flatMap((field, index) => {
+        const ascending = (sortQuery[field] === 1) === (direction === 'after');
+        const value = values[index];
+        const clause: Record<string, any> = {};
+
+        fields.slice(0, index).forEach((previous, previousIndex) => {
+          clause[previous] = values[previousIndex];
+        });
+
+        if (value === null) {
+          // Nothing sorts below null, so only the ascending direction has documents left
+          if (!ascending) return [];
+          clause[field] = { $ne: null };
+        } else if (ascending || field === '_id') {
+          clause[field] = { [ascending ? '$gt' : '$lt']: value };
+        } else {
+          clause.$or = [{ [field]: { $lt: value } }, { [field]: null }];
+        }
+
+        return [clause];
+      }),
+    };
+  }
+
+  async findWithCursor(
+    options: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<CursorPaginationResult<TOutput>> {
+    return this.execute('cursor', options, execution, (parsed, hook) => this.runCursor(parsed, execution, hook));
+  }
+
+  private async runCursor(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<CursorPaginationResult<TOutput>> {
+    const { q, limit: rawLimit, sort, select, populate, after, before, ...filterOptions } = options;
+    const issues: QueryValidationIssue[] = [];
+    const access = await this.resolveAccess(execution.context);
+    const limit = this.resolveLimit(rawLimit, issues);
+    const searchQuery = this.buildSearchQuery(q, issues, access);
+    const filterQuery = this.buildFilterQuery(filterOptions, issues, access);
+
+    // Every document needs a unique position in the sort order, even without a sort.
+    // Relevance can't be used here since text scores aren't stable cursor positions.
+    const sortQuery = this.buildSortQuery(sort, issues, false, access) as Record<string, 1 | -1>;
+    if (sortQuery._id === undefined) sortQuery._id = 1;
+
+    const selectQuery = this.buildSelectQuery(select, issues, access);
+    const populateFields = this.buildPopulateFields(populate, issues, access);
+
+    if (after && before) {
+      issues.push({ parameter: 'before', value: before, reason: 'Cannot be combined with "after"' });
+    }
+
+    const direction = after ? 'after' : before ? 'before' : undefined;
+    const cursor = direction ? options[direction] : undefined;
+    let cursorValues: unknown[] | undefined;
+
+    if (direction) {
+      cursorValues = typeof cursor === 'string' ? this.decodeCursorValues(cursor, sortQuery) : undefined;
+      if (!cursorValues) {
+        issues.push({ parameter: direction, value: cursor, reason: 'Invalid cursor' });
+        cursorValues = undefined;
+      }
+    }
+
+    this.assertValid(issues);
+
+    const query = await this.runBeforeQuery(await this.applyScopes(
+      andClauses([searchQuery, await this.resolveReferenceFilters(filterQuery)]),
+      execution
+    ), options, hook);
+
+    // Cursor and search predicates both use $or, so they are combined with $and
+    const cursorQuery = direction && cursorValues ? this.buildCursorQuery(sortQuery, cursorValues, direction) : {};
+    const combinedQuery = andClauses([query, cursorQuery]);
+
+    // Paging backwards walks the reversed sort order and flips the page afterwards
+    const backwards = direction === 'before' && cursorValues !== undefined;
+    const effectiveSort: Record<string, 1 | -1> = {};
+    for (const [field, order] of Object.entries(sortQuery)) {
+      effectiveSort[field] = backwards ? (order === 1 ? -1 : 1) : order;
+    }
+
+    const lean = execution.lean ?? this.lean;
+    const cacheQuery = {
+      filter: combinedQuery,
+      sort: Object.entries(effectiveSort),
+      select: selectQuery,
+      populate: populateFields,
+      limit,
+      backwards,
+      cursor: cursorValues !== undefined,
+      lean,
+    };
+
+    return this.withCache('cursor', execution, cacheQuery, async () => {
+      // One extra document tells us whether there is another page without counting
+      const textSearch = '$text' in searchQuery;
+      const projection = withCursorFields(selectQuery, Object.keys(sortQuery));
+      const results = await this.createFindQuery(combinedQuery, effectiveSort, projection.select, populateFields, textSearch, lean)
+        .limit(limit + 1)
+        .exec();
+
+      const hasMore = results.length > limit;
+      const docs = results.slice(0, limit);
+      if (backwards) docs.reverse();
+
+      const toCursor = (doc: any) => encodeCursor(Object.keys(sortQuery).map((field) => getPathValue(doc, field) ?? null));
+      const hasNextPage = backwards ? true : hasMore;
+      const hasPrevPage = backwards ? hasMore : cursorValues !== undefined;
+
+      // Cursors first: stripping the added sort keys modifies hydrated documents in place
+      const nextCursor = hasNextPage && docs.length > 0 ? toCursor(docs[docs.length - 1]) : null;
+      const prevCursor = hasPrevPage && docs.length > 0 ? toCursor(docs[0]) : null;
+
+      return {
+        docs: this.toOutput(docs.map((doc: any) => stripPaths(doc, projection.added))),
+        limit,
+        nextCursor,
+        prevCursor,
+        hasNextPage,
+        hasPrevPage,
+      };
+    });
+  }
+
+  async countWithOptions(
+    options: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<number> {
+    return this.execute('count', options, execution, (parsed, hook) => this.runCount(parsed, execution, hook));
+  }
+
+  private async runCount(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<number> {
+    const { q, ...filterOptions } = options;
+    const issues: QueryValidationIssue[] = [];
+    const access = await this.resolveAccess(execution.context);
+
+    // Pagination, sort, select and populate options don't affect the count
+    const searchQuery = this.buildSearchQuery(q, issues, access);
+    const filterQuery = this.buildFilterQuery(filterOptions, issues, access);
+
+    this.assertValid(issues);
+
+    const query = await this.runBeforeQuery(await this.applyScopes(
+      andClauses([searchQuery, await this.resolveReferenceFilters(filterQuery)]),
+      execution
+    ), options, hook);
+
+    return this.withCache('count', execution, { filter: query }, async () => this.model.countDocuments(query));
+  }
+
+  private resolveFacetFields(
+    facets: unknown,
+    issues: QueryValidationIssue[],
+    access: FieldAccessRules = {}
+  ): FacetFieldConfig[] {
+    if (typeof facets !== 'string') {
+      issues.push({ parameter: 'facets', value: facets, reason: 'Facets must be a string' });
+      return [];
+    }
+
+    const configs: FacetFieldConfig[] = [];
+
+    for (const field of facets.split(',').map((item) => item.trim()).filter(Boolean)) {
+      const config = this.facetableFields.find((facet) => facet.field === field);
+
+      if (config && !isHiddenPath(field, access)) {
+        configs.push(config);
+      } else {
+        issues.push({ parameter: 'facets', value: field, reason: 'Field is not facetable' });
+      }
+    }
+
+    return configs;
+  }
+
+  private buildFacetPipeline(config: FacetFieldConfig): any[] {
+    const path = `$${config.field}`;
+
+    if (config.type === 'range') {
+      return [
+        { $bucket: { groupBy: path, boundaries: config.boundaries, default: 'other', output: { count: { $sum: 1 } } } },
+      ];
+    }
+
+    if (config.type === 'date') {
+      return [
+        { $match: { [config.field]: { $type: 'date' } } },
+        { $group: { _id: { $dateTrunc: { date: path, unit: config.interval || 'month' } }, count: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+      ];
+    }
+
+    // Array fields are counted per element
+    const isArray = this.model.schema?.path(config.field)?.instance === 'Array';
+
+    return [
+      ...(isArray ? [{ $unwind: path }] : []),
+      { $group: { _id: path, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: config.limit || 10 },
+    ];
+  }
+
+  private async countFacets(query: object, configs: FacetFieldConfig[]): Promise<FacetCounts> {
+    if (configs.length === 0) return {};
+
+    // $facet output names can't contain dots, so facets are keyed by position
+    const pipeline: any[] = Object.keys(query).length > 0 ? [{ $match: query }] : [];
+    pipeline.push({ $facet: Object.fromEntries(configs.map((config, index) => [`${index}`, this.buildFacetPipeline(config)])) });
+
+    const [result] = await this.model.aggregate(pipeline).exec();
+    const facets: FacetCounts = {};
+
+    configs.forEach((config, index) => {
+      facets[config.field] = result[`${index}`].map((bucket: any) => ({ value: bucket._id, count: bucket.count }));
+    });
+
+    return facets;
+  }
+
+  async facetWithOptions(
+    options: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<{ facets: FacetCounts }> {
+    return this.execute('facet', options, execution, (parsed, hook) => this.runFacet(parsed, execution, hook));
+  }
+
+  private async runFacet(
+    options: QueryOptions,
+    execution: QueryExecutionOptions,
+    hook: QueryHookContext
+  ): Promise<{ facets: FacetCounts }> {
+    const { q, facets, ...filterOptions } = options;
+    const issues: QueryValidationIssue[] = [];
+    const access = await this.resolveAccess(execution.context);
+
+    // Facet counts follow the same search and filters as the results
+    const searchQuery = this.buildSearchQuery(q, issues, access);
+    const filterQuery = this.buildFilterQuery(filterOptions, issues, access);
+
+    // Without an explicit list every facetable field is counted
+    const configs = facets !== undefined
+      ? this.resolveFacetFields(facets, issues, access)
+      : this.facetableFields.filter(({ field }) => !isHiddenPath(field, access));
+
+    this.assertValid(issues);
+
+    const query = await this.runBeforeQuery(await this.applyScopes(
+      andClauses([searchQuery, await this.resolveReferenceFilters(filterQuery)]),
+      execution
+    ), options, hook);
+
+    return this.withCache('facet', execution, { filter: query, facets: configs }, async () => ({
+      facets: await this.countFacets(query, configs),
+    }));
+  }
+
+  // Normalizes a raw request query into QueryOptions; the result is validated when it is run
+  static parseQuery(rawQuery: RawQuery): QueryOptions {
+    const params = new Map<string, unknown>();
+
+    const addParam = (rawKey: string, value: unknown) => {
+      // `status[]=a&status[]=b` and repeated `status=a&status=b` both become arrays
+      const key = rawKey.endsWith('[]') ? rawKey.slice(0, -2) : rawKey;
+      const existing = params.get(key);
+
+      if (existing !== undefined) {
+        params.set(key, ([] as unknown[]).concat(existing, value));
+      } else {
+        params.set(key, rawKey.endsWith('[]') && !Array.isArray(value) ? [value] : value);
+      }
+    };
+
+    if (typeof rawQuery === 'string' || rawQuery instanceof URLSearchParams) {
+      const searchParams = typeof rawQuery === 'string' ? new URLSearchParams(rawQuery.replace(/^\?/, '')) : rawQuery;
+      searchParams.forEach((value, key) => addParam(key, value));
+    } else {
+      Object.entries(rawQuery).forEach(([key, value]) => addParam(key, value));
+    }
+
+    const options: QueryOptions = {};
+
+    for (const [key, value] of params) {
+      if (value === undefined) continue;
+
+      const values = Array.isArray(value) ? value : [value];
+      const strings = values.every((item) => typeof item === 'string');
+
+      if (key === 'page' || key === 'limit') {
+        const last = values[values.length - 1];
+        // Non-numeric values are kept as is so that validation can report them
+        options[key] = typeof last === 'string' && /^-?\d+$/.test(last.trim()) ? Number(last) : last;
+      } else if (key === 'q' && strings) {
+        options.q = values.join(' ');
+      } else if (LIST_OPTIONS.includes(key) && strings) {
+        options[key] = values.join(',');
+      } else if (RESERVED_OPTIONS.includes(key)) {
+        // Objects (e.g. `q[$ne]=x`) are kept as is so that validation can reject them
+        options[key] = strings ? values[values.length - 1] : value;
+      } else if (Array.isArray(value) && !OPERATOR_KEY_PATTERN.test(key)) {
+        // A list of values for a plain filter key means "any of"
+        options[key] = { in: value };
+      } else {
+        options[key] = value;
+      }
+    }
+
+    return options;
+  }
+
+  // Serializes QueryOptions back into a query string, e.g. for next/prev links
+  static toQueryString(options: QueryOptions): string {
+    const parts: string[] = [];
+
+    const addPart = (key: string, value: unknown) => {
+      if (value === undefined || value === null) return;
+
+      if (Array.isArray(value)) {
+        value.forEach((item) => addPart(key, item));
+      } else if (isPlainObject(value)) {
+        Object.entries(value).forEach(([operator, operatorValue]) => addPart(`${key}[${operator}]`, operatorValue));
+      } else {
+        // Brackets stay readable; everything else is percent-encoded
+        parts.push(`${encodeURIComponent(key).replace(/%5B/g, '[').replace(/%5D/g, ']')}=${encodeURIComponent(toQueryValue(value))}`);
+      }
+    };
+
+    // Filter groups travel as JSON rather than as nested bracket keys
+    Object.entries(options).forEach(([key, value]) =>
+      addPart(key, key === 'filter' && isPlainObject(value) ? JSON.stringify(value) : value)
+    );
+
+    return parts.join('&');
+  }
+
+  // Builds self/first/prev/next/last URLs for a findWithOptions result
+  static buildLinks(result: PaginationResult<unknown>, baseUrl: string, options: QueryOptions = {}): PaginationLinks {
+    const separator = baseUrl.includes('?') ? '&' : '?';
+    const pageUrl = (page: number) =>
+      `${baseUrl}${separator}${QueryToolkit.toQueryString({ ...options, page, limit: result.limit })}`;
+
+    const links = {
+      self: pageUrl(result.page),
+      first: pageUrl(1),
+      prev: result.prevPage !== null ? pageUrl(result.prevPage) : null,
+      next: result.nextPage !== null ? pageUrl(result.nextPage) : null,
+      last: result.totalPages !== null ? pageUrl(Math.max(result.totalPages, 1)) : null,
+    };
+
+    const header = Object.entries(links)
+      .filter(([, url]) => url !== null)
+      .map(([rel, url]) => `<${url}>; rel="${rel}"`)
+      .join(', ');
+
+    return { ...links, header };
+  }
+
+  async findFromRequest(rawQuery: RawQuery, execution: QueryExecutionOptions = {}): Promise<PaginationResult<TOutput>> {
+    return this.findWithOptions(QueryToolkit.parseQuery(rawQuery), execution);
+  }
+
+  // Hooks run in the order they were registered
+  use(hooks: QueryHooks): this {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  // Invalidates cached results with any of the tags (default: every cached query of this model)
+  async invalidateCache(tags: string[] = [this.model.modelName]): Promise<void> {
+    if (this.cache) await invalidateCacheTags(this.cache.store, tags);
+  }
+
+  defineScope(name: string, scope: ScopeFilter): void {
+    this.scopes.set(name, scope);
+  }
+
+  deleteScope(name: string): boolean {
+    return this.scopes.delete(name);
+  }
+
+  listScopes(): string[] {
+    return Array.from(this.scopes.keys());
+  }
+
+  definePreset(name: string, options: QueryOptions, cache?: CacheOptions): void {
+    this.presets.set(name, { ...options });
+
+    // Per-preset cache settings, e.g. a longer TTL for dashboard queries
+    if (cache) {
+      this.presetCache.set(name, { ...cache });
+    } else {
+      this.presetCache.delete(name);
+    }
   }
 
   getPreset(name: string): QueryOptions | undefined {
@@ -186,6 +2803,7 @@ export class QueryToolkit<T extends Document> {
   }
 
   deletePreset(name: string): boolean {
+    this.presetCache.delete(name);
     return this.presets.delete(name);
   }
 
@@ -195,8 +2813,9 @@ export class QueryToolkit<T extends Document> {
 
   async findWithPreset(
     presetName: string,
-    overrides: QueryOptions = {}
-  ): Promise<PaginationResult<T>> {
+    overrides: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
+  ): Promise<PaginationResult<TOutput>> {
     const preset = this.presets.get(presetName);
 
     if (!preset) {
@@ -206,12 +2825,13 @@ export class QueryToolkit<T extends Document> {
     // Merge preset with overrides (overrides take precedence)
     const mergedOptions = { ...preset, ...overrides };
 
-    return this.findWithOptions(mergedOptions);
+    return this.findWithOptions(mergedOptions, { cache: this.presetCache.get(presetName), ...execution });
   }
 
   async countWithPreset(
     presetName: string,
-    overrides: QueryOptions = {}
+    overrides: QueryOptions = {},
+    execution: QueryExecutionOptions = {}
   ): Promise<number> {
     const preset = this.presets.get(presetName);
 
@@ -222,6 +2842,6 @@ export class QueryToolkit<T extends Document> {
     // Merge preset with overrides (overrides take precedence)
     const mergedOptions = { ...preset, ...overrides };
 
-    return this.countWithOptions(mergedOptions);
+    return this.countWithOptions(mergedOptions, { cache: this.presetCache.get(presetName), ...execution });
   }
 }
\ No newline at end of file